@@ -0,0 +1,16 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { matchesContentPattern } from "./cleaning";
+
+describe("content patterns", () => {
+  it("matches regular expressions", () => {
+    assert.equal(matchesContentPattern(/release v\d+/i, "New Release v12 is out"), true);
+    assert.equal(matchesContentPattern(/^release/i, "No release today"), false);
+  });
+
+  it("stops patterns that backtrack catastrophically", () => {
+    const started = Date.now();
+    assert.throws(() => matchesContentPattern(/(a+)+$/i, `${"a".repeat(40)}b`), { code: 'ERR_SCRIPT_EXECUTION_TIMEOUT' });
+    assert.ok(Date.now() - started < 1000);
+  });
+});
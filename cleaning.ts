@@ -0,0 +1,733 @@
+import { ChatInputCommandInteraction, Message } from "discord.js";
+import vm from "vm";
+import { CleaningOptionColumns, EmojiFilterMode, ChannelRuleScope, ChannelRuleRow, WatchRuleRow, ReportCadence } from "./database";
+import { TrackedMessage } from "./storage";
+
+// When a tracked message is cleaned. Without a window it is cleaned around the clock until it expires.
+export interface CleaningSchedule {
+  expiresAt: number | null; // Unix ms
+  windowStart: number | null; // Minutes since midnight UTC
+  windowEnd: number | null; // Minutes since midnight UTC, may be lower than windowStart for overnight windows
+  windowDays: number[]; // UTC weekdays (0 = Sunday) the window applies to, empty for every day
+}
+
+export const defaultCleaningSchedule: CleaningSchedule = {
+  expiresAt: null,
+  windowStart: null,
+  windowEnd: null,
+  windowDays: [],
+};
+
+// Per-message cleaning configuration
+export interface CleaningOptions {
+  emojiFilterMode: EmojiFilterMode;
+  emojiFilter: string[];
+  exemptRoles: string[]; // Reactions from members with any of these roles are kept
+  exemptUsers: string[]; // Reactions from these users are kept
+  targetUsers: string[]; // When set, only reactions from these users are removed
+  maxDistinctEmojis: number | null; // When set, only emojis beyond this many different ones are removed
+  maxPerEmoji: number | null; // When set, only reactors beyond this many per emoji are removed
+  graceSeconds: number | null; // When set, reactions are removed only after they have been on the message this long
+  observe: boolean; // Record the reactions that would be removed instead of removing them
+}
+
+export const defaultCleaningOptions: CleaningOptions = {
+  emojiFilterMode: 'all',
+  emojiFilter: [],
+  exemptRoles: [],
+  exemptUsers: [],
+  targetUsers: [],
+  maxDistinctEmojis: null,
+  maxPerEmoji: null,
+  graceSeconds: null,
+  observe: false,
+};
+
+// A message that is actively being cleaned
+export interface CleaningTask {
+  messageUrl: string;
+  channelId: string;
+  messageId: string;
+  message: Message;
+  options: CleaningOptions;
+  schedule: CleaningSchedule;
+  dormant: boolean; // Outside its active window, reactions are left alone until the window opens
+  seedReactions: string[]; // Emojis the bot keeps on the message, in order
+}
+
+// A channel rule that is actively applied to reaction events
+export interface ChannelRule {
+  channelId: string;
+  guildId: string;
+  scope: ChannelRuleScope;
+  createdAt: number; // Unix ms, messages older than this are skipped by 'new' rules
+  options: CleaningOptions;
+}
+
+// A watch rule that tracks matching new messages as they are posted
+export interface WatchRule {
+  id: number;
+  guildId: string;
+  channelId: string; // Messages in threads and forum posts under this channel match too
+  authorId: string | null;
+  webhookId: string | null;
+  roleId: string | null;
+  contentPattern: RegExp | null;
+  maxTracked: number | null; // When set, the oldest messages tracked by the rule are untracked beyond this many
+  options: CleaningOptions;
+}
+
+// Enhanced function to parse Discord message URLs (supports threads and forum posts)
+export function parseMessageUrl(messageUrl: string): { guildId: string; channelId: string; messageId: string } | null {
+  try {
+    // Discord message URL patterns:
+    // Regular channel: https://discord.com/channels/GUILD_ID/CHANNEL_ID/MESSAGE_ID
+    // Thread: https://discord.com/channels/GUILD_ID/CHANNEL_ID/MESSAGE_ID (same format)
+    // The channel_id in threads is the thread ID, not the parent channel ID
+    
+    const url = new URL(messageUrl);
+    const pathParts = url.pathname.split('/').filter(part => part.length > 0);
+    
+    // Expected format: ['channels', 'GUILD_ID', 'CHANNEL_ID', 'MESSAGE_ID']
+    if (pathParts.length >= 4 && pathParts[0] === 'channels') {
+      const guildId = pathParts[1]; // '@me' for DMs, which can't be cleaned
+      const channelId = pathParts[2]; // This will be thread ID for threads, channel ID for regular channels
+      const messageId = pathParts[3];
+      
+      if (guildId && guildId !== '@me' && channelId && messageId) {
+        return { guildId, channelId, messageId };
+      }
+    }
+    
+    return null;
+  } catch (error) {
+    console.error('Error parsing message URL:', error);
+    return null;
+  }
+}
+
+// Key used to compare emojis: the ID for custom emojis, the variation-selector-free character for unicode ones
+export function emojiKey(emoji: { id: string | null; name: string | null }): string {
+  return emoji.id ?? (emoji.name ?? '').replace(/\uFE0F/g, '');
+}
+
+// Render a stored emoji key back into something Discord will display
+export function formatEmojiKey(key: string): string {
+  return /^\d+$/.test(key) ? `<:emoji:${key}>` : key;
+}
+
+// Parse a user supplied list of unicode emojis, custom emojis (<:name:id>) and custom emoji IDs
+function parseEmojiList(input: string): { emojis: string[]; invalid: string[] } {
+  const emojis: string[] = [];
+  const invalid: string[] = [];
+
+  // Pull out custom emojis first so their names don't get split into graphemes
+  const remaining = input.replace(/<a?:\w+:(\d+)>/g, (_match, id: string) => {
+    emojis.push(id);
+    return ' ';
+  });
+
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  for (const token of remaining.split(/[\s,]+/).filter((t) => t.length > 0)) {
+    if (/^\d{17,20}$/.test(token)) {
+      emojis.push(token);
+      continue;
+    }
+
+    // Unicode emojis are often typed without separators, e.g. "✅❌"
+    for (const { segment } of segmenter.segment(token)) {
+      if (/\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20E3/u.test(segment)) {
+        emojis.push(emojiKey({ id: null, name: segment }));
+      } else {
+        invalid.push(segment);
+      }
+    }
+  }
+
+  return { emojis: [...new Set(emojis)], invalid };
+}
+
+// Discord allows at most 20 different emojis on one message
+export const maxSeedReactions = 20;
+
+// Parse a user supplied list of seed reactions, keeping their order. Custom emojis are stored as
+// name:id (a:name:id when animated) because the bot needs the name to react with them.
+export function parseSeedReactions(input: string): { seeds: string[]; invalid: string[] } {
+  const seeds: string[] = [];
+  const invalid: string[] = [];
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+  for (const token of input.split(/(<a?:\w+:\d+>)|[\s,]+/).filter((t): t is string => !!t)) {
+    const custom = /^<(a?):(\w+):(\d+)>$/.exec(token);
+    if (custom) {
+      seeds.push(`${custom[1] ? 'a:' : ''}${custom[2]}:${custom[3]}`);
+      continue;
+    }
+
+    for (const { segment } of segmenter.segment(token)) {
+      if (/\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20E3/u.test(segment)) {
+        seeds.push(segment);
+      } else {
+        invalid.push(segment);
+      }
+    }
+  }
+
+  // The same emoji can only be reacted once
+  const unique = seeds.filter((seed, index) => seeds.findIndex((other) => seedKey(other) === seedKey(seed)) === index);
+  return { seeds: unique, invalid };
+}
+
+// The emoji key a seed reaction is matched against
+export function seedKey(seed: string): string {
+  const custom = /:(\d+)$/.exec(seed);
+  return custom ? custom[1] : emojiKey({ id: null, name: seed });
+}
+
+// Render a seed reaction so Discord displays it
+export function formatSeedReaction(seed: string): string {
+  const parts = seed.split(':');
+  if (parts.length === 1) return seed;
+  return parts.length === 3 ? `<a:${parts[1]}:${parts[2]}>` : `<:${parts[0]}:${parts[1]}>`;
+}
+
+// Describe seed reactions for command replies, empty when there are none
+export function describeSeedReactions(seeds: string[]): string {
+  return seeds.length ? `seed reactions ${seeds.map(formatSeedReaction).join(" ")}` : "";
+}
+
+// Parse a user supplied list of user/role mentions or raw IDs
+function parseIdList(input: string): { ids: string[]; invalid: string[] } {
+  const ids: string[] = [];
+  const invalid: string[] = [];
+
+  for (const token of input.split(/[\s,]+/).filter((t) => t.length > 0)) {
+    const match = token.match(/^(?:<@[!&]?)?(\d{17,20})>?$/);
+    if (match) {
+      ids.push(match[1]);
+    } else {
+      invalid.push(token);
+    }
+  }
+
+  return { ids: [...new Set(ids)], invalid };
+}
+
+// Parse a SQLite CURRENT_TIMESTAMP value, which is UTC without a zone suffix
+export function parseSqliteTimestamp(value: string): Date {
+  return new Date(value.replace(' ', 'T') + 'Z');
+}
+
+// Convert a database row into cleaning options
+export function rowToCleaningOptions(row: CleaningOptionColumns): CleaningOptions {
+  return {
+    emojiFilterMode: row.emoji_filter_mode,
+    emojiFilter: JSON.parse(row.emoji_filter) as string[],
+    exemptRoles: JSON.parse(row.exempt_roles) as string[],
+    exemptUsers: JSON.parse(row.exempt_users) as string[],
+    targetUsers: JSON.parse(row.target_users) as string[],
+    maxDistinctEmojis: row.max_distinct_emojis,
+    maxPerEmoji: row.max_per_emoji,
+    graceSeconds: row.grace_seconds,
+    observe: row.observe === 1,
+  };
+}
+
+// Convert cleaning options into the column values used by the prepared statements
+export function cleaningOptionsToRow(options: CleaningOptions) {
+  return {
+    emoji_filter_mode: options.emojiFilterMode,
+    emoji_filter: JSON.stringify(options.emojiFilter),
+    exempt_roles: JSON.stringify(options.exemptRoles),
+    exempt_users: JSON.stringify(options.exemptUsers),
+    target_users: JSON.stringify(options.targetUsers),
+    max_distinct_emojis: options.maxDistinctEmojis,
+    max_per_emoji: options.maxPerEmoji,
+    grace_seconds: options.graceSeconds,
+    observe: options.observe ? 1 : 0,
+  };
+}
+
+// Whether reactions have to be judged per user instead of per emoji
+export function hasUserRules(options: CleaningOptions): boolean {
+  return options.exemptRoles.length > 0 || options.exemptUsers.length > 0 || options.targetUsers.length > 0;
+}
+
+// Whether reactions are only removed beyond a cap instead of all of them
+export function hasCaps(options: CleaningOptions): boolean {
+  return options.maxDistinctEmojis !== null || options.maxPerEmoji !== null;
+}
+
+// Build a link to a message from its IDs
+export function messageLink(guildId: string, channelId: string, messageId: string): string {
+  return `https://discord.com/channels/${guildId}/${channelId}/${messageId}`;
+}
+
+// Human readable name of the rule stored with an audit entry
+export function describeAuditRule(rule: string): string {
+  return rule.startsWith('channel:') ? `channel rule <#${rule.slice('channel:'.length)}>` : "message rule";
+}
+
+// User ID stored with an audit entry for a whole emoji removed at once, its removed_count says how many reactions went
+export const bulkAuditUserId = '*';
+
+// Who an audit entry removed
+export function describeAuditUser(userId: string, count: number): string {
+  return userId === bulkAuditUserId ? `everyone (×${count})` : `<@${userId}>`;
+}
+
+// Time a cleaning report covers, and how long until the next one
+export const reportCadenceMs: Record<ReportCadence, number> = { daily: 86_400_000, weekly: 604_800_000 };
+
+// Parse a duration like "30m", "24h", "7d" or "2w" into milliseconds
+function parseDuration(input: string): number | null {
+  const match = input.trim().match(/^(\d+)\s*(s|m|h|d|w)$/i);
+  if (!match) return null;
+
+  const unitMs: Record<string, number> = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+  return Number(match[1]) * unitMs[match[2].toLowerCase()];
+}
+
+// Parse a point in time given either as a duration ago ("24h") or a date ("2024-05-01", ISO timestamp)
+export function parseTimeInput(input: string, now: Date = new Date()): Date | null {
+  const duration = parseDuration(input);
+  if (duration !== null) return new Date(now.getTime() - duration);
+
+  const timestamp = Date.parse(input.trim());
+  return Number.isNaN(timestamp) ? null : new Date(timestamp);
+}
+
+// Format a date the way SQLite's CURRENT_TIMESTAMP stores it, so they compare correctly
+export function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+// Whether a reaction with this emoji should be removed under the given options
+export function shouldRemoveEmoji(options: CleaningOptions, emoji: { id: string | null; name: string | null }): boolean {
+  if (options.emojiFilterMode === 'all') return true;
+
+  const listed = options.emojiFilter.includes(emojiKey(emoji));
+  return options.emojiFilterMode === 'allow' ? !listed : listed;
+}
+
+// Short human readable description of the emoji filter
+function describeEmojiFilter(options: CleaningOptions): string {
+  if (options.emojiFilterMode === 'all') return "all reactions";
+
+  const emojis = options.emojiFilter.map(formatEmojiKey).join(" ");
+  return options.emojiFilterMode === 'allow' ? `all except ${emojis}` : `only ${emojis}`;
+}
+
+// Short human readable description of the user rules, empty when there are none
+function describeUserRules(options: CleaningOptions): string {
+  const parts: string[] = [];
+  if (options.targetUsers.length) parts.push(`only from ${options.targetUsers.map((id) => `<@${id}>`).join(" ")}`);
+  if (options.exemptUsers.length) parts.push(`exempt ${options.exemptUsers.map((id) => `<@${id}>`).join(" ")}`);
+  if (options.exemptRoles.length) parts.push(`exempt ${options.exemptRoles.map((id) => `<@&${id}>`).join(" ")}`);
+  return parts.join(", ");
+}
+
+// Short human readable description of the caps, empty when there are none
+function describeCaps(options: CleaningOptions): string {
+  const parts: string[] = [];
+  if (options.maxDistinctEmojis !== null) parts.push(`${options.maxDistinctEmojis} emoji(s)`);
+  if (options.maxPerEmoji !== null) parts.push(`${options.maxPerEmoji} per emoji`);
+  return parts.length ? `beyond ${parts.join(" and ")}` : "";
+}
+
+// Full description of a message's cleaning configuration
+export function describeCleaningOptions(options: CleaningOptions): string {
+  const caps = describeCaps(options);
+  const userRules = describeUserRules(options);
+  let description = caps ? `${describeEmojiFilter(options)} ${caps}` : describeEmojiFilter(options);
+  if (options.graceSeconds) description += ` after ${options.graceSeconds}s`;
+  if (userRules) description += ` (${userRules})`;
+  return options.observe ? `${description} [observe only]` : description;
+}
+
+// Read the shared cleaning options of the enable/edit commands on top of an existing configuration
+export function readCleaningOptions(interaction: ChatInputCommandInteraction, base: CleaningOptions): { options: CleaningOptions } | { error: string } {
+  const options: CleaningOptions = { ...base };
+
+  const keepEmojisRaw = interaction.options.getString("keep_emojis");
+  const removeEmojisRaw = interaction.options.getString("remove_emojis");
+
+  if (keepEmojisRaw && removeEmojisRaw) {
+    return { error: "❌ Use either `keep_emojis` or `remove_emojis`, not both." };
+  }
+
+  const emojiListRaw = keepEmojisRaw ?? removeEmojisRaw;
+  if (emojiListRaw && emojiListRaw.trim().toLowerCase() === "none") {
+    options.emojiFilterMode = 'all';
+    options.emojiFilter = [];
+  } else if (emojiListRaw) {
+    const { emojis, invalid } = parseEmojiList(emojiListRaw);
+    if (invalid.length || emojis.length === 0) {
+      return { error: `❌ Could not read the emoji list${invalid.length ? `: ${invalid.join(" ")}` : ""}` };
+    }
+    options.emojiFilterMode = keepEmojisRaw ? 'allow' : 'deny';
+    options.emojiFilter = emojis;
+  }
+
+  const idLists: Array<[string, 'exemptRoles' | 'exemptUsers' | 'targetUsers']> = [
+    ["exempt_roles", 'exemptRoles'],
+    ["exempt_users", 'exemptUsers'],
+    ["target_users", 'targetUsers'],
+  ];
+  for (const [optionName, key] of idLists) {
+    const raw = interaction.options.getString(optionName);
+    if (!raw) continue;
+
+    if (raw.trim().toLowerCase() === "none") {
+      options[key] = [];
+      continue;
+    }
+
+    const { ids, invalid } = parseIdList(raw);
+    if (invalid.length || ids.length === 0) {
+      return { error: `❌ Could not read \`${optionName}\`${invalid.length ? `: ${invalid.join(" ")}` : ""}` };
+    }
+    options[key] = ids;
+  }
+
+  // 0 lifts a cap
+  const maxEmojis = interaction.options.getInteger("max_emojis");
+  if (maxEmojis !== null) options.maxDistinctEmojis = maxEmojis === 0 ? null : maxEmojis;
+  const maxPerEmoji = interaction.options.getInteger("max_per_emoji");
+  if (maxPerEmoji !== null) options.maxPerEmoji = maxPerEmoji === 0 ? null : maxPerEmoji;
+  const graceSeconds = interaction.options.getInteger("grace_seconds");
+  if (graceSeconds !== null) options.graceSeconds = graceSeconds === 0 ? null : graceSeconds;
+  const observe = interaction.options.getBoolean("observe");
+  if (observe !== null) options.observe = observe;
+
+  return { options };
+}
+
+// Read the seed_reactions option on top of the current seeds, "none" clears them
+export function readSeedReactions(interaction: ChatInputCommandInteraction, base: string[]): { seeds: string[] } | { error: string } {
+  const raw = interaction.options.getString("seed_reactions");
+  if (raw === null) return { seeds: base };
+  if (raw.trim().toLowerCase() === "none") return { seeds: [] };
+
+  const { seeds, invalid } = parseSeedReactions(raw);
+  if (invalid.length || seeds.length === 0) {
+    return { error: `❌ Could not read \`seed_reactions\`${invalid.length ? `: ${invalid.join(" ")}` : ""}` };
+  }
+  if (seeds.length > maxSeedReactions) return { error: `❌ A message can have at most ${maxSeedReactions} seed reactions.` };
+  return { seeds };
+}
+
+// Convert a database row into its cleaning schedule
+export function rowToCleaningSchedule(row: TrackedMessage): CleaningSchedule {
+  return {
+    expiresAt: row.expires_at ? parseSqliteTimestamp(row.expires_at).getTime() : null,
+    windowStart: row.window_start,
+    windowEnd: row.window_end,
+    windowDays: JSON.parse(row.window_days) as number[],
+  };
+}
+
+// Convert a cleaning schedule into the column values used by the prepared statements
+export function cleaningScheduleToRow(schedule: CleaningSchedule) {
+  return {
+    expires_at: schedule.expiresAt !== null ? toSqliteTimestamp(new Date(schedule.expiresAt)) : null,
+    window_start: schedule.windowStart,
+    window_end: schedule.windowEnd,
+    window_days: JSON.stringify(schedule.windowDays),
+  };
+}
+
+// Whether the schedule's active window is open at the given time
+export function isWithinWindow(schedule: CleaningSchedule, date: Date = new Date()): boolean {
+  if (schedule.windowDays.length > 0 && !schedule.windowDays.includes(date.getUTCDay())) return false;
+  if (schedule.windowStart === null || schedule.windowEnd === null) return true;
+
+  const minute = date.getUTCHours() * 60 + date.getUTCMinutes();
+  return schedule.windowStart <= schedule.windowEnd
+    ? minute >= schedule.windowStart && minute < schedule.windowEnd
+    : minute >= schedule.windowStart || minute < schedule.windowEnd;
+}
+
+// Whether the schedule's expiry time has passed
+export function isExpired(schedule: CleaningSchedule, now: number = Date.now()): boolean {
+  return schedule.expiresAt !== null && schedule.expiresAt <= now;
+}
+
+const weekdayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Parse an active window like "09:00-17:00" or "22-6" into minutes since midnight
+function parseTimeWindow(input: string): { start: number; end: number } | null {
+  const match = input.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  const start = Number(match[1]) * 60 + Number(match[2] ?? 0);
+  const end = Number(match[3]) * 60 + Number(match[4] ?? 0);
+  if (start > 24 * 60 || end > 24 * 60 || Number(match[2] ?? 0) >= 60 || Number(match[4] ?? 0) >= 60 || start === end) return null;
+
+  return { start, end };
+}
+
+// Parse a list of weekdays like "mon,wed,fri", "weekdays" or "weekends"
+function parseWeekdays(input: string): number[] | null {
+  const days = new Set<number>();
+
+  for (const token of input.toLowerCase().split(/[\s,]+/).filter((t) => t.length > 0)) {
+    if (token === "weekdays") {
+      [1, 2, 3, 4, 5].forEach((day) => days.add(day));
+    } else if (token === "weekends") {
+      [0, 6].forEach((day) => days.add(day));
+    } else if (token === "daily") {
+      [0, 1, 2, 3, 4, 5, 6].forEach((day) => days.add(day));
+    } else {
+      const day = weekdayNames.indexOf(token.slice(0, 3));
+      if (day === -1) return null;
+      days.add(day);
+    }
+  }
+
+  // Every day is the same as no restriction
+  return days.size === 7 ? [] : [...days].sort((a, b) => a - b);
+}
+
+// Format minutes since midnight as HH:MM
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Short human readable description of a schedule, empty when it has none
+export function describeSchedule(schedule: CleaningSchedule): string {
+  const parts: string[] = [];
+  if (schedule.windowStart !== null && schedule.windowEnd !== null) {
+    parts.push(`${formatMinutes(schedule.windowStart)}–${formatMinutes(schedule.windowEnd)} UTC`);
+  }
+  if (schedule.windowDays.length > 0) {
+    parts.push(`on ${schedule.windowDays.map((day) => weekdayNames[day]).join(", ")}`);
+  }
+  if (schedule.expiresAt !== null) {
+    parts.push(`until <t:${Math.floor(schedule.expiresAt / 1000)}:f>`);
+  }
+  return parts.join(" ");
+}
+
+// Read the schedule options of the enable/edit commands on top of an existing schedule
+export function readCleaningSchedule(interaction: ChatInputCommandInteraction, base: CleaningSchedule): { schedule: CleaningSchedule } | { error: string } {
+  const schedule: CleaningSchedule = { ...base };
+
+  const expiresRaw = interaction.options.getString("expires");
+  if (expiresRaw && expiresRaw.trim().toLowerCase() === "none") {
+    schedule.expiresAt = null;
+  } else if (expiresRaw) {
+    const duration = parseDuration(expiresRaw);
+    const expiresAt = duration !== null ? Date.now() + duration : Date.parse(expiresRaw.trim());
+    if (Number.isNaN(expiresAt) || expiresAt <= Date.now()) {
+      return { error: "❌ Could not read `expires`. Use a duration like `24h` or a future date like `2024-05-01T18:00Z`." };
+    }
+    schedule.expiresAt = expiresAt;
+  }
+
+  const hoursRaw = interaction.options.getString("active_hours");
+  if (hoursRaw && hoursRaw.trim().toLowerCase() === "none") {
+    schedule.windowStart = null;
+    schedule.windowEnd = null;
+  } else if (hoursRaw) {
+    const window = parseTimeWindow(hoursRaw);
+    if (!window) {
+      return { error: "❌ Could not read `active_hours`. Use a UTC range like `09:00-17:00` or `22:00-06:00`." };
+    }
+    schedule.windowStart = window.start;
+    schedule.windowEnd = window.end;
+  }
+
+  const daysRaw = interaction.options.getString("active_days");
+  if (daysRaw && daysRaw.trim().toLowerCase() === "none") {
+    schedule.windowDays = [];
+  } else if (daysRaw) {
+    const days = parseWeekdays(daysRaw);
+    if (!days) {
+      return { error: "❌ Could not read `active_days`. Use weekdays like `mon,wed,fri`, `weekdays` or `weekends`." };
+    }
+    schedule.windowDays = days;
+  }
+
+  return { schedule };
+}
+
+// Readable text of an error, for logs and the database
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Convert a channel rule row into the in-memory rule
+export function rowToChannelRule(row: ChannelRuleRow): ChannelRule {
+  return {
+    channelId: row.channel_id,
+    guildId: row.guild_id,
+    scope: row.scope,
+    createdAt: parseSqliteTimestamp(row.added_at).getTime(),
+    options: rowToCleaningOptions(row),
+  };
+}
+
+// Longest content pattern a watch rule accepts, to keep matching cheap
+export const maxContentPatternLength = 200;
+
+// Only the start of long messages is matched against content patterns
+export const maxMatchedContentLength = 4000;
+
+// Longest a content pattern may run on one message before it counts as not matching
+export const contentPatternTimeoutMs = 50;
+
+// Patterns run in their own context, so a catastrophically backtracking one can be interrupted
+const contentPatternContext = vm.createContext({ pattern: null, text: "" });
+
+// Whether a message's text matches a watch rule's regular expression. Patterns come from moderators and run on
+// every new message, so one that takes longer than contentPatternTimeoutMs is stopped and throws instead.
+export function matchesContentPattern(pattern: RegExp, text: string): boolean {
+  contentPatternContext.pattern = pattern;
+  contentPatternContext.text = text.slice(0, maxMatchedContentLength);
+  try {
+    return vm.runInContext("pattern.test(text)", contentPatternContext, { timeout: contentPatternTimeoutMs }) === true;
+  } finally {
+    contentPatternContext.pattern = null;
+    contentPatternContext.text = "";
+  }
+}
+
+// Convert a watch rule row into the in-memory rule
+export function rowToWatchRule(row: WatchRuleRow): WatchRule {
+  return {
+    id: row.id,
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    authorId: row.author_id,
+    webhookId: row.webhook_id,
+    roleId: row.role_id,
+    contentPattern: row.content_pattern ? new RegExp(row.content_pattern, 'i') : null,
+    maxTracked: row.max_tracked,
+    options: rowToCleaningOptions(row),
+  };
+}
+
+// Describe what a watch rule matches, e.g. "from @user matching /release/"
+export function describeWatchRule(rule: WatchRule): string {
+  const criteria: string[] = [];
+  if (rule.authorId) criteria.push(`from <@${rule.authorId}>`);
+  if (rule.webhookId) criteria.push(`from webhook ${rule.webhookId}`);
+  if (rule.roleId) criteria.push(`by members with <@&${rule.roleId}>`);
+  if (rule.contentPattern) criteria.push(`matching \`/${rule.contentPattern.source}/\``);
+  return criteria.join(" ");
+}
+
+// Discord IDs are 17 to 20 digit numbers
+export const snowflakePattern = /^\d{17,20}$/;
+
+export interface ExportedSchedule {
+  expiresAt: string | null; // ISO date
+  windowStart: number | null;
+  windowEnd: number | null;
+  windowDays: number[];
+}
+
+export interface ExportedTrackedMessage {
+  messageUrl: string;
+  status: 'active' | 'paused';
+  options: CleaningOptions;
+  schedule: ExportedSchedule;
+  seedReactions: string[]; // Missing from files exported before seed reactions existed
+}
+
+export interface ExportedChannelRule {
+  channelId: string;
+  scope: ChannelRuleScope;
+  options: CleaningOptions;
+}
+
+export interface ExportedWatchRule {
+  channelId: string;
+  authorId: string | null;
+  webhookId: string | null;
+  roleId: string | null;
+  contentPattern: string | null;
+  maxTracked: number | null;
+  options: CleaningOptions;
+}
+
+export interface CleaningExport {
+  version: number;
+  guildId: string;
+  exportedAt: string;
+  channelRules: ExportedChannelRule[];
+  watchRules: ExportedWatchRule[]; // Missing from files exported before watch rules existed
+  trackedMessages: ExportedTrackedMessage[];
+}
+
+// Version of the export file format, bumped when it changes incompatibly
+export const exportFormatVersion = 1;
+
+// Convert a tracked message row into its export entry, errored and expired messages are exported as active
+export function trackedMessageToExport(row: TrackedMessage): ExportedTrackedMessage {
+  const schedule = rowToCleaningSchedule(row);
+  return {
+    messageUrl: row.message_url,
+    status: row.status === 'paused' ? 'paused' : 'active',
+    options: rowToCleaningOptions(row),
+    schedule: {
+      expiresAt: schedule.expiresAt !== null ? new Date(schedule.expiresAt).toISOString() : null,
+      windowStart: schedule.windowStart,
+      windowEnd: schedule.windowEnd,
+      windowDays: schedule.windowDays,
+    },
+    seedReactions: JSON.parse(row.seed_reactions) as string[],
+  };
+}
+
+// Convert a channel rule row into its export entry
+export function channelRuleToExport(row: ChannelRuleRow): ExportedChannelRule {
+  return {
+    channelId: row.channel_id,
+    scope: row.scope,
+    options: rowToCleaningOptions(row),
+  };
+}
+
+// Convert a watch rule row into its export entry
+export function watchRuleToExport(row: WatchRuleRow): ExportedWatchRule {
+  return {
+    channelId: row.channel_id,
+    authorId: row.author_id,
+    webhookId: row.webhook_id,
+    roleId: row.role_id,
+    contentPattern: row.content_pattern,
+    maxTracked: row.max_tracked,
+    options: rowToCleaningOptions(row),
+  };
+}
+
+// Collect a guild's tracked messages and rules into an export
+export function buildCleaningExport(guildId: string, channelRuleRows: ChannelRuleRow[], watchRuleRows: WatchRuleRow[], messageRows: TrackedMessage[]): CleaningExport {
+  return {
+    version: exportFormatVersion,
+    guildId,
+    exportedAt: new Date().toISOString(),
+    channelRules: channelRuleRows.map(channelRuleToExport),
+    watchRules: watchRuleRows.map(watchRuleToExport),
+    trackedMessages: messageRows.map(trackedMessageToExport),
+  };
+}
+
+// A validated import waiting for the user to confirm it
+export interface PendingImport {
+  guildId: string;
+  userId: string;
+  replace: boolean;
+  data: CleaningExport;
+  expiresAt: number;
+}
+
+// Changes an import would make, by label
+export interface ImportDiff {
+  added: string[];
+  changed: string[];
+  unchanged: string[];
+  removed: string[];
+}
@@ -0,0 +1,375 @@
+import Database from "better-sqlite3";
+import { accessSync, constants, existsSync, statSync, writeFileSync, unlinkSync } from "fs";
+import path from "path";
+import {
+  dataDir,
+  dbPath,
+  migrations,
+  runMigrations,
+  prepareStatements,
+  ChannelRuleScope,
+  ChannelRuleRow,
+  WatchRuleRow,
+  Statements,
+} from "./database";
+import {
+  defaultCleaningOptions,
+  defaultCleaningSchedule,
+  parseMessageUrl,
+  rowToCleaningOptions,
+  rowToCleaningSchedule,
+  cleaningOptionsToRow,
+  cleaningScheduleToRow,
+  describeCleaningOptions,
+  describeSchedule,
+  describeSeedReactions,
+  isExpired,
+  rowToWatchRule,
+  describeWatchRule,
+  snowflakePattern,
+  buildCleaningExport,
+  errorMessage,
+} from "./cleaning";
+import { TrackedMessageStore, createSqliteTrackedMessageStore } from "./storage";
+
+// Offline admin tool for the tracking database. The running bot only picks up changes when it restarts.
+// Usage: npx ts-node cli.ts <command> [arguments]
+
+const usage = `Usage: npx ts-node cli.ts <command> [arguments]
+
+Commands:
+  list [guild_id]                               List tracked messages, channel rules and watch rules
+  add <message_url>...                          Start cleaning all reactions on messages
+  remove <message_url>...                       Stop cleaning messages
+  pause <message_url>...                        Pause cleaning messages
+  resume <message_url>...                       Resume cleaning paused, errored or suspended messages
+  add-channel <guild_id> <channel_id> [all|new] Clean all reactions in a channel
+  remove-channel <channel_id>                   Stop cleaning a channel
+  remove-watch <rule_id>                        Delete a watch rule, the messages it tracked keep being cleaned
+  export <guild_id> <file>                      Write the server's configuration in the /import-reaction-cleaning format
+  doctor                                        Check the data directory, permissions and database schema`;
+
+interface CliContext {
+  db: Database.Database;
+  store: TrackedMessageStore;
+  statements: Statements;
+}
+
+// Open the database the way the bot does, bringing the schema up to date first
+function openDatabase(): CliContext {
+  if (!existsSync(dbPath)) {
+    throw new Error(`Database file not found: ${dbPath}. Run this from the bot's directory, or start the bot once to create it.`);
+  }
+  const db = new Database(dbPath, { fileMustExist: true });
+  runMigrations(db);
+  return { db, store: createSqliteTrackedMessageStore(db), statements: prepareStatements(db) };
+}
+
+// Validate message URLs, printing the invalid ones
+function readMessageUrls(args: string[]): Array<{ url: string; guildId: string; channelId: string; messageId: string }> {
+  if (args.length === 0) throw new Error("No message URL(s) provided.");
+
+  const parsed = [];
+  for (const url of args) {
+    const result = parseMessageUrl(url);
+    if (result) parsed.push({ url, ...result });
+    else console.log(`❌ Invalid message URL: ${url}`);
+  }
+  return parsed;
+}
+
+function listCommand({ store, statements }: CliContext, guildId?: string): void {
+  const messages = guildId ? store.getGuild(guildId) : store.getAll();
+  const channelRules = (statements.getAllChannelRules.all() as ChannelRuleRow[]).filter((row) => !guildId || row.guild_id === guildId);
+  const watchRules = (guildId ? statements.getGuildWatchRules.all(guildId) : statements.getAllWatchRules.all()) as WatchRuleRow[];
+
+  console.log(`📋 Tracked messages (${messages.length} total):`);
+  for (const row of messages) {
+    const scheduleText = describeSchedule(rowToCleaningSchedule(row));
+    const seeds = JSON.parse(row.seed_reactions) as string[];
+    let line = `• [${row.status}] ${row.message_url} — ${describeCleaningOptions(rowToCleaningOptions(row))}`;
+    if (scheduleText) line += `, ${scheduleText}`;
+    if (seeds.length) line += `, seeds ${describeSeedReactions(seeds)}`;
+    if (row.watch_rule_id !== null) line += ` (watch rule #${row.watch_rule_id})`;
+    if (row.last_error) line += `\n    ⚠️ ${row.last_error}`;
+    console.log(line);
+  }
+
+  console.log(`\n📋 Channel rules (${channelRules.length} total):`);
+  for (const row of channelRules) {
+    const scopeText = row.scope === 'new' ? "new messages" : "all messages";
+    console.log(`• ${row.channel_id} in ${row.guild_id} — ${describeCleaningOptions(rowToCleaningOptions(row))} on ${scopeText}`);
+  }
+
+  console.log(`\n📋 Watch rules (${watchRules.length} total):`);
+  for (const row of watchRules) {
+    const rule = rowToWatchRule(row);
+    const capText = rule.maxTracked ? `, at most ${rule.maxTracked} tracked` : "";
+    console.log(`• #${rule.id} ${rule.channelId} in ${rule.guildId} ${describeWatchRule(rule)} — ${describeCleaningOptions(rule.options)}${capText}`);
+  }
+}
+
+// The server a channel is known to be in from the bot's earlier rules and messages. The CLI can't ask Discord.
+function findKnownChannelGuild({ store, statements }: CliContext, channelId: string): string | null {
+  const channelRule = statements.getChannelRule.get(channelId) as ChannelRuleRow | undefined;
+  if (channelRule) return channelRule.guild_id;
+
+  const watchRule = (statements.getAllWatchRules.all() as WatchRuleRow[]).find((row) => row.channel_id === channelId);
+  if (watchRule) return watchRule.guild_id;
+
+  return store.getAll().find((row) => row.channel_id === channelId)?.guild_id ?? null;
+}
+
+function addCommand(context: CliContext, args: string[]): void {
+  const { store } = context;
+  for (const { url, guildId, channelId, messageId } of readMessageUrls(args)) {
+    if (store.get(url)) {
+      console.log(`ℹ️ Already tracked, change its options with /edit-reaction-cleaning: ${url}`);
+      continue;
+    }
+    const knownGuildId = findKnownChannelGuild(context, channelId);
+    if (knownGuildId && knownGuildId !== guildId) {
+      console.log(`🚫 Channel ${channelId} is in server ${knownGuildId}, not ${guildId}: ${url}`);
+      continue;
+    }
+    store.upsert({
+      message_url: url,
+      guild_id: guildId,
+      channel_id: channelId,
+      message_id: messageId,
+      ...cleaningOptionsToRow(defaultCleaningOptions),
+      ...cleaningScheduleToRow(defaultCleaningSchedule),
+    });
+    console.log(`✅ Started cleaning: ${url}`);
+  }
+}
+
+function removeCommand({ db, store, statements }: CliContext, args: string[]): void {
+  for (const { url, messageId } of readMessageUrls(args)) {
+    if (!store.get(url)) {
+      console.log(`ℹ️ Not tracked: ${url}`);
+      continue;
+    }
+    db.transaction(() => {
+      store.delete(url);
+      statements.deleteMessagePendingRemovals.run(messageId);
+      statements.deleteMessageObservations.run(messageId);
+    })();
+    console.log(`🛑 Stopped cleaning: ${url}`);
+  }
+}
+
+function pauseOrResumeCommand({ store }: CliContext, args: string[], pausing: boolean): void {
+  for (const { url } of readMessageUrls(args)) {
+    const row = store.get(url);
+    if (!row) {
+      console.log(`ℹ️ Not tracked: ${url}`);
+    } else if (pausing) {
+      if (row.status === 'paused') {
+        console.log(`ℹ️ Already paused: ${url}`);
+      } else {
+        store.setStatus(url, 'paused');
+        console.log(`⏸️ Paused: ${url}`);
+      }
+    } else if (row.status === 'active') {
+      console.log(`ℹ️ Already active: ${url}`);
+    } else if (row.status === 'expired' || isExpired(rowToCleaningSchedule(row))) {
+      console.log(`⌛ Expired, set a new expiry with /edit-reaction-cleaning: ${url}`);
+    } else {
+      store.setStatus(url, 'active');
+      console.log(`▶️ Resumed: ${url}`);
+    }
+  }
+}
+
+function addChannelCommand({ statements }: CliContext, args: string[]): void {
+  const [guildId, channelId, scopeArg = 'all'] = args;
+  if (!guildId || !snowflakePattern.test(guildId) || !channelId || !snowflakePattern.test(channelId)) {
+    throw new Error("Usage: add-channel <guild_id> <channel_id> [all|new]");
+  }
+  if (scopeArg !== 'all' && scopeArg !== 'new') throw new Error("Scope must be all or new.");
+  const scope: ChannelRuleScope = scopeArg;
+
+  const existing = statements.getChannelRule.get(channelId) as ChannelRuleRow | undefined;
+  if (existing && existing.guild_id !== guildId) throw new Error(`Channel ${channelId} already has a rule in server ${existing.guild_id}.`);
+
+  // Keep the options of an existing rule, only the scope changes
+  const options = existing ? rowToCleaningOptions(existing) : defaultCleaningOptions;
+  statements.upsertChannelRule.run({ channel_id: channelId, guild_id: guildId, scope, ...cleaningOptionsToRow(options) });
+  console.log(`${existing ? "✏️ Updated" : "✅ Started"} cleaning ${describeCleaningOptions(options)} on ${scope === 'new' ? "new messages" : "all messages"} in ${channelId}`);
+}
+
+function removeChannelCommand({ statements }: CliContext, args: string[]): void {
+  const [channelId] = args;
+  if (!channelId) throw new Error("Usage: remove-channel <channel_id>");
+
+  const existing = statements.getChannelRule.get(channelId) as ChannelRuleRow | undefined;
+  if (!existing) {
+    console.log(`ℹ️ No channel rule exists for ${channelId}.`);
+    return;
+  }
+  statements.deleteChannelRule.run(channelId);
+  console.log(`🛑 Stopped cleaning reactions in ${channelId}.`);
+}
+
+function removeWatchCommand({ db, store, statements }: CliContext, args: string[]): void {
+  const ruleId = Number(args[0]);
+  if (!Number.isInteger(ruleId)) throw new Error("Usage: remove-watch <rule_id>");
+
+  const existing = statements.getWatchRule.get(ruleId) as WatchRuleRow | undefined;
+  if (!existing) {
+    console.log(`ℹ️ No watch rule #${ruleId} exists.`);
+    return;
+  }
+  db.transaction(() => {
+    statements.deleteWatchRule.run(ruleId);
+    store.clearWatchRule(ruleId);
+  })();
+  console.log(`🛑 Deleted watch rule #${ruleId}. The messages it tracked are still cleaned.`);
+}
+
+function exportCommand({ store, statements }: CliContext, args: string[]): void {
+  const [guildId, file] = args;
+  if (!guildId || !snowflakePattern.test(guildId) || !file) throw new Error("Usage: export <guild_id> <file>");
+
+  const channelRuleRows = (statements.getAllChannelRules.all() as ChannelRuleRow[]).filter((row) => row.guild_id === guildId);
+  const data = buildCleaningExport(guildId, channelRuleRows, statements.getGuildWatchRules.all(guildId) as WatchRuleRow[], store.getGuild(guildId));
+  writeFileSync(file, JSON.stringify(data, null, 2));
+  console.log(`📦 Exported ${data.trackedMessages.length} message(s), ${data.channelRules.length} channel rule(s) and ${data.watchRules.length} watch rule(s) to ${file}`);
+}
+
+// Repeat the startup checks of ensureDataDirectoryAndDatabase and the migrations without creating or changing anything.
+// Returns whether every check passed.
+function doctorCommand(): boolean {
+  let healthy = true;
+  const fail = (message: string) => {
+    console.error(`❌ ${message}`);
+    healthy = false;
+  };
+
+  console.log('🔧 Checking data directory and database...');
+  console.log('Current working directory:', process.cwd());
+  console.log('Process UID:', process.getuid?.() ?? 'unknown');
+  console.log('Process GID:', process.getgid?.() ?? 'unknown');
+
+  if (!existsSync(dataDir)) {
+    fail(`Data directory doesn't exist: ${dataDir}. The bot creates it on startup.`);
+    return false;
+  }
+  if (!statSync(dataDir).isDirectory()) {
+    fail(`Data directory path is not a directory: ${dataDir}`);
+    return false;
+  }
+  console.log('✅ Data directory exists');
+
+  const testFile = path.join(dataDir, 'test-write-permissions.tmp');
+  try {
+    writeFileSync(testFile, 'test');
+    unlinkSync(testFile);
+    console.log('✅ Write permissions verified for data directory');
+  } catch (writeError) {
+    const stats = statSync(dataDir);
+    fail(`No write permissions to data directory (mode 0${(stats.mode & 0o777).toString(8)}, owner ${stats.uid}:${stats.gid}): ${errorMessage(writeError)}`);
+  }
+
+  if (!existsSync(dbPath)) {
+    fail(`Database file doesn't exist: ${dbPath}. The bot creates it on startup.`);
+    return false;
+  }
+  const stats = statSync(dbPath);
+  console.log('Database file stats:', {
+    size: stats.size,
+    mode: '0' + (stats.mode & 0o777).toString(8),
+    uid: stats.uid,
+    gid: stats.gid
+  });
+  try {
+    accessSync(dbPath, constants.R_OK | constants.W_OK);
+    console.log('✅ Database file is readable and writable');
+  } catch (accessError) {
+    fail(`Database file is not readable and writable: ${errorMessage(accessError)}`);
+  }
+
+  let db: Database.Database;
+  try {
+    db = new Database(dbPath, { readonly: true, fileMustExist: true });
+  } catch (openError) {
+    fail(`Could not open the database: ${errorMessage(openError)}`);
+    return false;
+  }
+
+  try {
+    const integrity = db.pragma('quick_check', { simple: true });
+    if (integrity === 'ok') console.log('✅ Database integrity check passed');
+    else fail(`Database integrity check failed: ${integrity}`);
+
+    const hasMigrationTable = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get();
+    const applied = hasMigrationTable
+      ? new Set((db.prepare("SELECT version FROM schema_migrations").all() as Array<{ version: number }>).map((row) => row.version))
+      : new Set<number>();
+    const latestVersion = Math.max(...migrations.map((migration) => migration.version));
+    const unknown = [...applied].filter((version) => version > latestVersion);
+    const pending = migrations.filter((migration) => !applied.has(migration.version));
+
+    if (unknown.length) {
+      fail(`Database has schema version ${Math.max(...unknown)} but this build only knows up to ${latestVersion}. The bot will refuse to start.`);
+    } else if (pending.length) {
+      console.warn(`⚠️ ${pending.length} migration(s) pending, the bot applies them on startup: ${pending.map((migration) => `${migration.version} ${migration.name}`).join(", ")}`);
+    } else {
+      console.log(`✅ Database schema is up to date (version ${latestVersion})`);
+    }
+  } catch (schemaError) {
+    fail(`Could not check the database schema: ${errorMessage(schemaError)}`);
+  } finally {
+    db.close();
+  }
+
+  console.log(healthy ? '✅ All checks passed' : '❌ Some checks failed');
+  return healthy;
+}
+
+function main(args: string[]): number {
+  const [command, ...rest] = args;
+
+  if (command === 'doctor') return doctorCommand() ? 0 : 1;
+
+  const handlers: Record<string, (context: CliContext, args: string[]) => void> = {
+    'list': (context, args) => listCommand(context, args[0]),
+    'add': addCommand,
+    'remove': removeCommand,
+    'pause': (context, args) => pauseOrResumeCommand(context, args, true),
+    'resume': (context, args) => pauseOrResumeCommand(context, args, false),
+    'add-channel': addChannelCommand,
+    'remove-channel': removeChannelCommand,
+    'remove-watch': removeWatchCommand,
+    'export': exportCommand,
+  };
+  const handler = command ? handlers[command] : undefined;
+  if (!handler) {
+    console.log(usage);
+    return command && command !== 'help' ? 1 : 0;
+  }
+
+  let context: CliContext;
+  try {
+    context = openDatabase();
+  } catch (error) {
+    console.error(`❌ ${errorMessage(error)}`);
+    return 1;
+  }
+
+  try {
+    handler(context, rest);
+    if (command !== 'list' && command !== 'export') {
+      console.log("ℹ️ Restart the bot for the changes to take effect.");
+    }
+    return 0;
+  } catch (error) {
+    console.error(`❌ ${errorMessage(error)}`);
+    return 1;
+  } finally {
+    context.db.close();
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
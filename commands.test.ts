@@ -0,0 +1,155 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { Client, InteractionReplyOptions } from "discord.js";
+import { runMigrations, prepareStatements } from "./database";
+import { CleaningTask } from "./cleaning";
+import { commandHandlers, CommandContext, CommandHandler, CleanerRuntime } from "./commands";
+import { createMemoryTrackedMessageStore } from "./storage";
+
+const guildId = "100000000000000001";
+const messageUrl = `https://discord.com/channels/${guildId}/200000000000000001/300000000000000001`;
+const otherGuildUrl = "https://discord.com/channels/100000000000000002/200000000000000002/300000000000000002";
+
+// Only what the tested handlers use of an interaction
+function fakeInteraction(commandName: string, values: Record<string, string | number | boolean>) {
+  const replies: InteractionReplyOptions[] = [];
+  const get = (name: string) => values[name] ?? null;
+  const interaction = {
+    commandName,
+    guildId,
+    options: { getString: get, getInteger: get, getBoolean: get, getChannel: (name: string) => values[name] ? { id: String(values[name]) } : null },
+    reply: async (reply: InteractionReplyOptions) => { replies.push(reply); },
+    deferReply: async () => {},
+    editReply: async (reply: string | InteractionReplyOptions) => { replies.push(typeof reply === 'string' ? { content: reply } : reply); },
+  };
+  return { interaction: interaction as unknown as Parameters<CommandHandler>[0], replies };
+}
+
+// A runtime that starts tasks without talking to Discord
+function fakeRuntime(): CleanerRuntime & { sweeps: string[]; permissionProblems: Record<string, string> } {
+  const cleaningTasks: Record<string, CleaningTask> = {};
+  const runtime = {
+    cleaningTasks,
+    channelRules: {},
+    watchRules: {},
+    pendingAuditLog: {},
+    pendingImports: {},
+    sweeps: [] as string[],
+    permissionProblems: {} as Record<string, string>,
+    startCleaning: async (url: string, channelId: string, messageId: string, options = undefined, schedule = undefined, seedReactions: string[] = []) => {
+      if (cleaningTasks[url]) return { success: false, error: "Already cleaning this message" };
+      cleaningTasks[url] = { messageUrl: url, channelId, messageId, options, schedule, dormant: false, seedReactions } as unknown as CleaningTask;
+      return { success: true };
+    },
+    stopCleaning: (url: string) => {
+      const running = Boolean(cleaningTasks[url]);
+      delete cleaningTasks[url];
+      return running;
+    },
+    findChannelPermissionProblem: async (_interaction: unknown, channelId: string) => runtime.permissionProblems[channelId] ?? null,
+    findReportChannelProblem: async (_interaction: unknown, channelId: string) => runtime.permissionProblems[channelId] ?? null,
+    sweepReactions: async (task: CleaningTask) => { runtime.sweeps.push(task.messageUrl); },
+    withdrawSeedReactions: async () => {},
+    resumeCleaning: async () => null,
+  };
+  return runtime as unknown as CleanerRuntime & typeof runtime;
+}
+
+describe("command handlers", () => {
+  let context: CommandContext;
+  let runtime: ReturnType<typeof fakeRuntime>;
+
+  beforeEach(() => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    runtime = fakeRuntime();
+    context = { guildId, client: {} as Client, db, store: createMemoryTrackedMessageStore(), statements: prepareStatements(db), runtime };
+  });
+
+  const run = async (commandName: string, values: Record<string, string | number | boolean>) => {
+    const { interaction, replies } = fakeInteraction(commandName, values);
+    await commandHandlers[commandName](interaction, context);
+    assert.equal(replies.length, 1);
+    return String(replies[0].content);
+  };
+
+  it("enables cleaning with options and stores the message", async () => {
+    const reply = await run("enable-reaction-cleaning", { message_url: messageUrl, keep_emojis: "👍", seed_reactions: "👍" });
+
+    assert.match(reply, /Started cleaning/);
+    const row = context.store.get(messageUrl)!;
+    assert.equal(row.guild_id, guildId);
+    assert.equal(row.emoji_filter_mode, 'allow');
+    assert.equal(row.seed_reactions, '["👍"]');
+    assert.ok(runtime.cleaningTasks[messageUrl]);
+  });
+
+  it("refuses messages from other servers and channels it may not manage", async () => {
+    runtime.permissionProblems["200000000000000001"] = "The bot needs the Manage Messages permission";
+    const reply = await run("enable-reaction-cleaning", { message_url: `${messageUrl} ${otherGuildUrl} not-a-url` });
+
+    assert.match(reply, /different server/);
+    assert.match(reply, /Missing permissions/);
+    assert.match(reply, /Invalid message URLs/);
+    assert.equal(context.store.getAll().length, 0);
+  });
+
+  it("edits the options of a tracked message and its running task", async () => {
+    await run("enable-reaction-cleaning", { message_url: messageUrl });
+    const reply = await run("edit-reaction-cleaning", { message_url: messageUrl, max_emojis: 3, observe: true });
+
+    assert.match(reply, /Updated cleaning options/);
+    const row = context.store.get(messageUrl)!;
+    assert.equal(row.max_distinct_emojis, 3);
+    assert.equal(row.observe, 1);
+    assert.equal(runtime.cleaningTasks[messageUrl].options.maxDistinctEmojis, 3);
+    assert.deepEqual(runtime.sweeps, [messageUrl]);
+  });
+
+  it("reports messages that are not tracked when editing", async () => {
+    const reply = await run("edit-reaction-cleaning", { message_url: messageUrl, max_emojis: 3 });
+    assert.match(reply, /Not being tracked/);
+  });
+
+  it("disables cleaning and removes the message", async () => {
+    await run("enable-reaction-cleaning", { message_url: messageUrl });
+    const reply = await run("disable-reaction-cleaning", { message_url: messageUrl });
+
+    assert.match(reply, /Stopped cleaning/);
+    assert.equal(context.store.get(messageUrl), undefined);
+    assert.equal(runtime.cleaningTasks[messageUrl], undefined);
+
+    assert.match(await run("disable-reaction-cleaning", { message_url: messageUrl }), /No cleaning task was running/);
+  });
+
+  it("changes the report cadence without dropping the report channel", async () => {
+    assert.match(await run("set-reaction-report-channel", { cadence: "weekly" }), /No report channel is set/);
+
+    await run("set-reaction-report-channel", { channel: "200000000000000001" });
+    const reply = await run("set-reaction-report-channel", { cadence: "weekly" });
+
+    assert.match(reply, /weekly cleaning report will be posted in <#200000000000000001>/);
+    const settings = context.statements.getGuildSettings.get(guildId) as { report_channel_id: string; report_cadence: string };
+    assert.equal(settings.report_channel_id, "200000000000000001");
+    assert.equal(settings.report_cadence, "weekly");
+  });
+
+  it("refuses report channels the bot can't post embeds in", async () => {
+    runtime.permissionProblems["200000000000000002"] = "The bot needs the View Channel, Send Messages and Embed Links permissions";
+    assert.match(await run("set-reaction-report-channel", { channel: "200000000000000002" }), /Embed Links/);
+    assert.equal(context.statements.getGuildSettings.get(guildId), undefined);
+  });
+
+  it("counts each voter once per seed reaction", async () => {
+    await run("enable-reaction-cleaning", { message_url: messageUrl, seed_reactions: "👍 👎" });
+    const vote = (emoji: string, userId: string) => context.statements.insertVote.run({ guild_id: guildId, channel_id: "200000000000000001", message_id: "300000000000000001", emoji, user_id: userId });
+    vote("👍", "400000000000000001");
+    vote("👍", "400000000000000001");
+    vote("👍", "400000000000000002");
+
+    const reply = await run("reaction-votes", { message_url: messageUrl });
+    assert.match(reply, /👍 — 2 votes/);
+    assert.match(reply, /👎 — 0 votes/);
+  });
+});
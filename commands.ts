@@ -0,0 +1,1606 @@
+import {
+  SlashCommandBuilder,
+  Message,
+  ChannelType,
+  SlashCommandOptionsOnlyBuilder,
+  ContextMenuCommandBuilder,
+  ApplicationCommandType,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  AttachmentBuilder,
+  PermissionFlagsBits,
+  ChatInputCommandInteraction,
+  Client,
+  EmbedBuilder,
+  Interaction,
+  InteractionReplyOptions,
+} from "discord.js";
+import Database from "better-sqlite3";
+import {
+  ChannelRuleScope,
+  ChannelRuleRow,
+  WatchRuleRow,
+  ReactionAuditRow,
+  GuildSettingsRow,
+  ReportCadence,
+  CountResult,
+  VoteCountRow,
+  DatabaseRunResult,
+  Statements,
+} from "./database";
+import { TrackedMessage, TrackedMessageStore } from "./storage";
+import {
+  defaultCleaningSchedule,
+  defaultCleaningOptions,
+  parseMessageUrl,
+  formatEmojiKey,
+  seedKey,
+  formatSeedReaction,
+  describeSeedReactions,
+  parseSqliteTimestamp,
+  rowToCleaningOptions,
+  cleaningOptionsToRow,
+  messageLink,
+  describeAuditRule,
+  describeAuditUser,
+  parseTimeInput,
+  toSqliteTimestamp,
+  reportCadenceMs,
+  describeCleaningOptions,
+  readCleaningOptions,
+  readSeedReactions,
+  rowToCleaningSchedule,
+  cleaningScheduleToRow,
+  isWithinWindow,
+  isExpired,
+  describeSchedule,
+  readCleaningSchedule,
+  errorMessage,
+  rowToChannelRule,
+  maxContentPatternLength,
+  rowToWatchRule,
+  describeWatchRule,
+  snowflakePattern,
+  PendingImport,
+  CleaningTask,
+  ChannelRule,
+  WatchRule,
+  CleaningOptions,
+  CleaningSchedule,
+  CleaningExport,
+  ImportDiff,
+} from "./cleaning";
+
+// The running cleaner's state and the operations commands use to change it
+export interface CleanerRuntime {
+  cleaningTasks: Record<string, CleaningTask>;
+  channelRules: Record<string, ChannelRule>;
+  watchRules: Record<number, WatchRule>;
+  pendingAuditLog: Record<string, unknown[]>;
+  pendingImports: Record<string, PendingImport>;
+  startCleaning(messageUrl: string, channelId: string, messageId: string, options?: CleaningOptions, schedule?: CleaningSchedule, seedReactions?: string[]): Promise<{ success: boolean; error?: string; message?: Message }>;
+  stopCleaning(messageUrl: string): boolean;
+  pauseCleaning(row: TrackedMessage): void;
+  resumeCleaning(row: TrackedMessage): Promise<string | null>;
+  sweepReactions(task: CleaningTask): Promise<void>;
+  withdrawSeedReactions(task: CleaningTask, seeds: string[]): Promise<void>;
+  findChannelPermissionProblem(interaction: Interaction, channelId: string): Promise<string | null>;
+  findReportChannelProblem(interaction: Interaction, channelId: string): Promise<string | null>;
+  buildTrackedMessageList(guildId: string, page: number, channelFilter: string | null): Promise<{ content: string; embeds: EmbedBuilder[]; components: ActionRowBuilder<ButtonBuilder>[] }>;
+  buildObservationReport(guildId: string, messageId: string | null): EmbedBuilder;
+  buildCleaningReport(guildId: string, since: Date, until: Date, cadence: ReportCadence): EmbedBuilder;
+  sendCleaningReport(channelId: string, embed: EmbedBuilder): Promise<void>;
+  exportGuildConfiguration(guildId: string): CleaningExport;
+  validateImport(data: unknown, guildId: string): { data: CleaningExport } | { errors: string[] };
+  diffImport(pending: PendingImport): ImportDiff;
+  describeImportDiff(diff: ImportDiff, replace: boolean): string;
+}
+
+// Everything a command handler works with. Handlers get it passed in instead of reaching for the bot's
+// globals, so they can be run against a fake client, an in-memory store and an in-memory database.
+export interface CommandContext {
+  guildId: string; // Every command works on the configuration of the server it was run in
+  client: Client;
+  db: Database.Database;
+  store: TrackedMessageStore;
+  statements: Statements;
+  runtime: CleanerRuntime;
+}
+
+// Commands only run in servers, the permission checks happen before the handler is called
+type CommandInteraction = ChatInputCommandInteraction<'cached' | 'raw'>;
+export type CommandHandler = (interaction: CommandInteraction, context: CommandContext) => Promise<void>;
+
+export function ephemeralReply(content: string, ephemeral: boolean = true): InteractionReplyOptions {
+  return { content, ephemeral };
+}
+
+// Imports waiting for confirmation expire after this long
+const pendingImportTtlMs = 10 * 60_000;
+const maxImportFileBytes = 1_000_000;
+
+// Options shared by the enable and edit commands
+function addCleaningOptions(builder: SlashCommandOptionsOnlyBuilder): SlashCommandOptionsOnlyBuilder {
+  return builder
+    .addStringOption((option) =>
+      option
+        .setName("keep_emojis")
+        .setDescription("Only keep these emojis and remove every other reaction (unicode or custom emojis)")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("remove_emojis")
+        .setDescription("Only remove these emojis and leave every other reaction (unicode or custom emojis)")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("exempt_roles")
+        .setDescription("Keep reactions from members with any of these roles (mentions or IDs)")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("exempt_users")
+        .setDescription("Keep reactions from these users (mentions or IDs)")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("target_users")
+        .setDescription("Only remove reactions from these users (mentions or IDs)")
+        .setRequired(false)
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("max_emojis")
+        .setDescription("Keep up to this many different emojis and trim the newest beyond it (0 = no limit)")
+        .setMinValue(0)
+        .setMaxValue(20)
+        .setRequired(false)
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("max_per_emoji")
+        .setDescription("Keep up to this many reactions per emoji and trim the newest beyond it (0 = no limit)")
+        .setMinValue(0)
+        .setRequired(false)
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("grace_seconds")
+        .setDescription("Let reactions stay this many seconds before removing them (0 = remove immediately)")
+        .setMinValue(0)
+        .setMaxValue(86_400)
+        .setRequired(false)
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("observe")
+        .setDescription("Only record which reactions would be removed, see /reaction-cleaning-report")
+        .setRequired(false)
+    );
+}
+
+// Schedule options of the message enable and edit commands
+function addScheduleOptions(builder: SlashCommandOptionsOnlyBuilder): SlashCommandOptionsOnlyBuilder {
+  return builder
+    .addStringOption((option) =>
+      option
+        .setName("expires")
+        .setDescription("Stop cleaning after a duration (e.g. 24h, 7d) or at a date (e.g. 2024-05-01T18:00Z)")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("active_hours")
+        .setDescription("Only clean during these UTC hours, e.g. 09:00-17:00 or 22:00-06:00")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("active_days")
+        .setDescription("Only clean on these UTC weekdays, e.g. mon,wed,fri, weekdays or weekends")
+        .setRequired(false)
+    );
+}
+
+// Add the seed reaction option, only tracked messages can have seeds
+function addSeedOption(builder: SlashCommandOptionsOnlyBuilder): SlashCommandOptionsOnlyBuilder {
+  return builder.addStringOption((option) =>
+    option
+      .setName("seed_reactions")
+      .setDescription("Emojis the bot keeps on the message in this order, e.g. 1️⃣ 2️⃣ 3️⃣")
+      .setRequired(false)
+  );
+}
+
+// Channel types a channel rule can cover
+const channelRuleChannelTypes = [
+  ChannelType.GuildText,
+  ChannelType.GuildAnnouncement,
+  ChannelType.GuildVoice,
+  ChannelType.GuildForum,
+  ChannelType.GuildCategory,
+  ChannelType.PublicThread,
+  ChannelType.PrivateThread,
+  ChannelType.AnnouncementThread,
+] as const;
+
+export const commands = [
+  addScheduleOptions(addSeedOption(addCleaningOptions(
+    new SlashCommandBuilder()
+      .setName("enable-reaction-cleaning")
+      .setDescription("Start continuously removing reactions from messages (supports threads and forum posts).")
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+      .addStringOption((option) =>
+        option
+          .setName("message_url")
+          .setDescription("Discord message URLs (space/comma separated) - works with regular channels, threads, and forum posts")
+          .setRequired(true)
+      )
+  ))).toJSON(),
+
+  addScheduleOptions(addSeedOption(addCleaningOptions(
+    new SlashCommandBuilder()
+      .setName("edit-reaction-cleaning")
+      .setDescription("Change the cleaning options of tracked messages. Pass \"none\" to clear a list.")
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+      .addStringOption((option) =>
+        option
+          .setName("message_url")
+          .setDescription("Discord message URLs (space/comma separated) of messages that are already being cleaned")
+          .setRequired(true)
+      )
+  ))).toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("disable-reaction-cleaning")
+    .setDescription("Stop cleaning reactions from messages (supports threads and forum posts).")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addStringOption((option) =>
+      option
+        .setName("message_url")
+        .setDescription("Discord message URLs (space/comma separated) - works with regular channels, threads, and forum posts")
+        .setRequired(true)
+        .setAutocomplete(true)
+    )
+    .toJSON(),
+
+  new ContextMenuCommandBuilder()
+    .setName("Toggle reaction cleaning")
+    .setType(ApplicationCommandType.Message)
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("pause-reaction-cleaning")
+    .setDescription("Pause cleaning reactions from messages while keeping their configuration.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addStringOption((option) =>
+      option
+        .setName("message_url")
+        .setDescription("Discord message URLs (space/comma separated) of tracked messages")
+        .setRequired(true)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("resume-reaction-cleaning")
+    .setDescription("Resume cleaning reactions from paused or errored messages.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addStringOption((option) =>
+      option
+        .setName("message_url")
+        .setDescription("Discord message URLs (space/comma separated) of tracked messages")
+        .setRequired(true)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("pause-all-cleaning")
+    .setDescription("Pause cleaning reactions from ALL tracked messages while keeping their configuration.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("resume-all-cleaning")
+    .setDescription("Resume cleaning reactions from ALL paused or errored messages.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("disable-all-cleaning")
+    .setDescription("Stop cleaning reactions from ALL tracked messages.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("list-reaction-cleaning")
+    .setDescription("Show all messages currently being cleaned.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addChannelOption((option) =>
+      option
+        .setName("channel")
+        .setDescription("Only show messages in this channel or its threads")
+        .addChannelTypes(...channelRuleChannelTypes)
+        .setRequired(false)
+    )
+    .toJSON(),
+
+  addCleaningOptions(
+    new SlashCommandBuilder()
+      .setName("enable-channel-reaction-cleaning")
+      .setDescription("Clean reactions on every message in a channel, thread, forum or category.")
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+      .addChannelOption((option) =>
+        option
+          .setName("channel")
+          .setDescription("Channel, thread, forum or category to clean")
+          .addChannelTypes(...channelRuleChannelTypes)
+          .setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("scope")
+          .setDescription("Which messages to clean (default: all messages)")
+          .addChoices(
+            { name: "All messages, reactions already on them are not swept", value: "all" },
+            { name: "Only messages posted from now on", value: "new" },
+          )
+          .setRequired(false)
+      )
+  ).toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("disable-channel-cleaning")
+    .setDescription("Stop cleaning reactions in a channel, thread, forum or category.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addChannelOption((option) =>
+      option
+        .setName("channel")
+        .setDescription("Channel, thread, forum or category to stop cleaning")
+        .addChannelTypes(...channelRuleChannelTypes)
+        .setRequired(true)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("list-channel-cleaning")
+    .setDescription("Show all channels, threads, forums and categories being cleaned.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .toJSON(),
+
+  addCleaningOptions(
+    new SlashCommandBuilder()
+      .setName("watch-reaction-cleaning")
+      .setDescription("Start cleaning new messages in a channel that match an author, webhook, role or pattern.")
+      .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+      .addChannelOption((option) =>
+        option
+          .setName("channel")
+          .setDescription("Channel or forum to watch, its threads and posts are watched too")
+          .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildForum, ChannelType.PublicThread, ChannelType.PrivateThread, ChannelType.AnnouncementThread)
+          .setRequired(true)
+      )
+      .addUserOption((option) =>
+        option
+          .setName("author")
+          .setDescription("Only track messages from this member or bot")
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("webhook_id")
+          .setDescription("Only track messages posted by this webhook")
+          .setRequired(false)
+      )
+      .addRoleOption((option) =>
+        option
+          .setName("role")
+          .setDescription("Only track messages from members with this role")
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("content_pattern")
+          .setDescription("Only track messages whose text matches this regular expression (case-insensitive)")
+          .setMaxLength(maxContentPatternLength)
+          .setRequired(false)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName("max_tracked")
+          .setDescription("Keep at most this many messages tracked by the rule, the oldest are untracked first")
+          .setMinValue(1)
+          .setRequired(false)
+      )
+  ).toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("list-watch-rules")
+    .setDescription("Show the rules that automatically track new messages.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("delete-watch-rule")
+    .setDescription("Stop automatically tracking new messages for a watch rule.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addIntegerOption((option) =>
+      option
+        .setName("id")
+        .setDescription("Number of the watch rule, see /list-watch-rules")
+        .setRequired(true)
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("untrack")
+        .setDescription("Also stop cleaning the messages the rule already tracked (default: false)")
+        .setRequired(false)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("reaction-cleaning-report")
+    .setDescription("Summarize which reactions observe mode would have removed.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addStringOption((option) =>
+      option
+        .setName("message_url")
+        .setDescription("Only report on this message")
+        .setRequired(false)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("reaction-votes")
+    .setDescription("Count the votes users cast on a message's seed reactions before they were removed.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addStringOption((option) =>
+      option
+        .setName("message_url")
+        .setDescription("Discord message URL of a tracked message with seed reactions")
+        .setRequired(true)
+        .setAutocomplete(true)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("reaction-audit")
+    .setDescription("Search the log of removed reactions.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addUserOption((option) =>
+      option
+        .setName("user")
+        .setDescription("Only show reactions removed from this user")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("message_url")
+        .setDescription("Only show reactions removed from this message")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("since")
+        .setDescription("Start of the time range, e.g. 24h, 7d or 2024-05-01 (default: everything)")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("until")
+        .setDescription("End of the time range, e.g. 1h or 2024-05-02 (default: now)")
+        .setRequired(false)
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("limit")
+        .setDescription("How many entries to show (default: 20)")
+        .setMinValue(1)
+        .setMaxValue(50)
+        .setRequired(false)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("set-reaction-log-channel")
+    .setDescription("Post summaries of removed reactions to a channel. Leave empty to stop posting.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addChannelOption((option) =>
+      option
+        .setName("channel")
+        .setDescription("Channel to post removal summaries in")
+        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.PublicThread, ChannelType.PrivateThread)
+        .setRequired(false)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("set-reaction-report-channel")
+    .setDescription("Post a daily or weekly cleaning report to a channel. Leave both options empty to stop posting.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addChannelOption((option) =>
+      option
+        .setName("channel")
+        .setDescription("Channel to post cleaning reports in")
+        .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.PublicThread, ChannelType.PrivateThread)
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("cadence")
+        .setDescription("How often the report is posted (default: the current cadence, or daily)")
+        .addChoices(
+          { name: "Daily", value: "daily" },
+          { name: "Weekly", value: "weekly" },
+        )
+        .setRequired(false)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("reaction-cleaning-report-now")
+    .setDescription("Post the cleaning report for the last day or week to the report channel now.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("export-reaction-cleaning")
+    .setDescription("Download this server's channel rules and tracked messages as a JSON file.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("import-reaction-cleaning")
+    .setDescription("Preview and apply channel rules and tracked messages from an exported JSON file.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addAttachmentOption((option) =>
+      option
+        .setName("file")
+        .setDescription("JSON file created by /export-reaction-cleaning")
+        .setRequired(true)
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("replace")
+        .setDescription("Remove rules and messages that are not in the file (default: false)")
+        .setRequired(false)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("reaction-cleaner-settings")
+    .setDescription("Show or change this server's bot settings. Run without options to show them.")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addRoleOption((option) =>
+      option
+        .setName("manager_role")
+        .setDescription("Role whose members may use the cleaning commands without Manage Messages")
+        .setRequired(false)
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("clear_manager_role")
+        .setDescription("Remove the manager role so only members with Manage Messages can use the commands")
+        .setRequired(false)
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("unarchive_threads")
+        .setDescription("Unarchive threads with tracked messages so cleaning continues, instead of suspending them")
+        .setRequired(false)
+    )
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("ping")
+    .setDescription("Check if the bot is responsive.")
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName("source-code")
+    .setDescription("Get the source code repository link for this bot.")
+    .addBooleanOption((option) =>
+      option
+        .setName("ephemeral")
+        .setDescription("Whether to show the response only to you (default: true)")
+        .setRequired(false)
+    )
+    .toJSON(),
+];
+
+async function handleEnableReactionCleaning(interaction: CommandInteraction, { guildId, store, runtime }: CommandContext): Promise<void> {
+  const messageUrlsRaw = interaction.options.getString("message_url", true);
+
+  const optionsResult = readCleaningOptions(interaction, defaultCleaningOptions);
+  if ('error' in optionsResult) {
+    await interaction.reply(ephemeralReply(optionsResult.error));
+    return;
+  }
+  const { options } = optionsResult;
+
+  const scheduleResult = readCleaningSchedule(interaction, defaultCleaningSchedule);
+  if ('error' in scheduleResult) {
+    await interaction.reply(ephemeralReply(scheduleResult.error));
+    return;
+  }
+  const { schedule } = scheduleResult;
+
+  const seedResult = readSeedReactions(interaction, []);
+  if ('error' in seedResult) {
+    await interaction.reply(ephemeralReply(seedResult.error));
+    return;
+  }
+  const { seeds } = seedResult;
+  
+  // Accept multiple URLs separated by space, comma, or newline
+  const urls = messageUrlsRaw
+    .split(/[\s,\n]+/)
+    .map((u) => u.trim())
+    .filter((u) => u.length > 0);
+
+  // Checking permissions and fetching every message can take longer than the 3 second reply window
+  await interaction.deferReply({ ephemeral: true });
+
+  let started: string[] = [];
+  let alreadyRunning: string[] = [];
+  let invalid: string[] = [];
+  let otherGuild: string[] = [];
+  let denied: string[] = [];
+  let errors: string[] = [];
+
+  for (const messageUrl of urls) {
+    const parsed = parseMessageUrl(messageUrl);
+    
+    if (!parsed) {
+      invalid.push(messageUrl);
+      continue;
+    }
+
+    if (parsed.guildId !== guildId) {
+      otherGuild.push(messageUrl);
+      continue;
+    }
+
+    const permissionProblem = await runtime.findChannelPermissionProblem(interaction, parsed.channelId);
+    if (permissionProblem) {
+      denied.push(`${messageUrl}: ${permissionProblem}`);
+      continue;
+    }
+
+    const { channelId, messageId } = parsed;
+    const result = await runtime.startCleaning(messageUrl, channelId, messageId, options, schedule, seeds);
+    
+    if (result.success) {
+      // Add to database
+      try {
+        store.upsert({
+          message_url: messageUrl,
+          guild_id: guildId,
+          channel_id: channelId,
+          message_id: messageId,
+          ...cleaningOptionsToRow(options),
+          ...cleaningScheduleToRow(schedule),
+        });
+        store.setSeedReactions(messageUrl, seeds);
+        console.log(`✅ DB Insert successful for ${messageUrl}`);
+        started.push(messageUrl);
+      } catch (dbError) {
+        console.error(`❌ DB Insert failed for ${messageUrl}:`, dbError);
+        errors.push(`${messageUrl}: Database error - ${dbError}`);
+        // Stop cleaning since we couldn't save it
+        runtime.stopCleaning(messageUrl);
+      }
+    } else {
+      if (result.error === "Already cleaning this message") {
+        alreadyRunning.push(messageUrl);
+      } else {
+        errors.push(`${messageUrl}: ${result.error}`);
+      }
+    }
+  }
+
+  const details = [describeSchedule(schedule), describeSeedReactions(seeds)].filter((text) => text.length > 0).join(", ");
+  let reply = "";
+  if (started.length)
+    reply += `✅ **Started cleaning ${describeCleaningOptions(options)}${details ? ` (${details})` : ""} for:**\n${started.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (alreadyRunning.length)
+    reply += `🔄 **Already cleaning reactions for:**\n${alreadyRunning.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (invalid.length)
+    reply += `❌ **Invalid message URLs:**\n${invalid.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (otherGuild.length)
+    reply += `🚫 **Messages from a different server:**\n${otherGuild.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (denied.length)
+    reply += `🔒 **Missing permissions:**\n${denied.map(problem => `• ${problem}`).join("\n")}\n\n`;
+  if (errors.length)
+    reply += `⚠️ **Errors:**\n${errors.map(error => `• ${error}`).join("\n")}`;
+
+  if (!reply) reply = "No valid message URLs provided.";
+
+  await interaction.editReply({ content: reply.trim() });
+}
+
+async function handleEditReactionCleaning(interaction: CommandInteraction, { guildId, store, runtime }: CommandContext): Promise<void> {
+  const messageUrlsRaw = interaction.options.getString("message_url", true);
+  
+  // Accept multiple URLs separated by space, comma, or newline
+  const urls = messageUrlsRaw
+    .split(/[\s,\n]+/)
+    .map((u) => u.trim())
+    .filter((u) => u.length > 0);
+
+  let updated: string[] = [];
+  let notTracked: string[] = [];
+  let otherGuild: string[] = [];
+  let errors: string[] = [];
+
+  for (const url of urls) {
+    const parsed = parseMessageUrl(url);
+    if (parsed && parsed.guildId !== guildId) {
+      otherGuild.push(url);
+      continue;
+    }
+
+    const row = store.get(url);
+    if (!row) {
+      notTracked.push(url);
+      continue;
+    }
+
+    const optionsResult = readCleaningOptions(interaction, rowToCleaningOptions(row));
+    if ('error' in optionsResult) {
+      await interaction.reply(ephemeralReply(optionsResult.error));
+      return;
+    }
+    const { options } = optionsResult;
+
+    const scheduleResult = readCleaningSchedule(interaction, rowToCleaningSchedule(row));
+    if ('error' in scheduleResult) {
+      await interaction.reply(ephemeralReply(scheduleResult.error));
+      return;
+    }
+    const { schedule } = scheduleResult;
+
+    const previousSeeds = JSON.parse(row.seed_reactions) as string[];
+    const seedResult = readSeedReactions(interaction, previousSeeds);
+    if ('error' in seedResult) {
+      await interaction.reply(ephemeralReply(seedResult.error));
+      return;
+    }
+    const { seeds } = seedResult;
+
+    try {
+      store.updateOptions(url, cleaningOptionsToRow(options));
+      store.updateSchedule(url, cleaningScheduleToRow(schedule));
+      store.setSeedReactions(url, seeds);
+      console.log(`✅ DB Update successful for ${url}`);
+    } catch (dbError) {
+      console.error(`❌ DB Update failed for ${url}:`, dbError);
+      errors.push(`${url}: Database error - ${dbError}`);
+      continue;
+    }
+
+    const task = runtime.cleaningTasks[url];
+    if (task) {
+      task.options = options;
+      task.schedule = schedule;
+      task.dormant = !isWithinWindow(schedule);
+      await runtime.withdrawSeedReactions(task, previousSeeds.filter((seed) => !seeds.some((other) => seedKey(other) === seedKey(seed))));
+      task.seedReactions = seeds;
+      // Apply the new rules to reactions that were previously allowed
+      if (!task.dormant) void runtime.sweepReactions(task);
+    } else if (row.status === 'expired' && !isExpired(schedule)) {
+      // A new expiry time brings an expired message back
+      await runtime.resumeCleaning(store.get(url)!);
+    }
+    const details = [describeSchedule(schedule), describeSeedReactions(seeds)].filter((text) => text.length > 0).join(", ");
+    updated.push(`${url} — ${describeCleaningOptions(options)}${details ? ` (${details})` : ""}`);
+  }
+
+  let reply = "";
+  if (updated.length)
+    reply += `✏️ **Updated cleaning options for:**\n${updated.map(line => `• ${line}`).join("\n")}\n\n`;
+  if (notTracked.length)
+    reply += `ℹ️ **Not being tracked:**\n${notTracked.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (otherGuild.length)
+    reply += `🚫 **Messages from a different server:**\n${otherGuild.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (errors.length)
+    reply += `⚠️ **Errors:**\n${errors.map(error => `• ${error}`).join("\n")}`;
+
+  if (!reply) reply = "No valid message URLs provided.";
+
+  await interaction.reply(ephemeralReply(reply.trim()));
+}
+
+async function handleDisableReactionCleaning(interaction: CommandInteraction, { guildId, store, runtime }: CommandContext): Promise<void> {
+  const messageUrlsRaw = interaction.options.getString("message_url", true);
+  
+  // Accept multiple URLs separated by space, comma, or newline
+  const urls = messageUrlsRaw
+    .split(/[\s,\n]+/)
+    .map((u) => u.trim())
+    .filter((u) => u.length > 0);
+
+  if (urls.length === 0) {
+    await interaction.reply(ephemeralReply("No message URL(s) provided."));
+    return;
+  }
+
+  // Checking permissions can take longer than the 3 second reply window
+  await interaction.deferReply({ ephemeral: true });
+
+  let stopped: string[] = [];
+  let notRunning: string[] = [];
+  let invalid: string[] = [];
+  let otherGuild: string[] = [];
+  let denied: string[] = [];
+
+  for (const url of urls) {
+    const parsed = parseMessageUrl(url);
+    
+    if (!parsed) {
+      invalid.push(url);
+      continue;
+    }
+
+    if (parsed.guildId !== guildId) {
+      otherGuild.push(url);
+      continue;
+    }
+
+    const permissionProblem = await runtime.findChannelPermissionProblem(interaction, parsed.channelId);
+    if (permissionProblem) {
+      denied.push(`${url}: ${permissionProblem}`);
+      continue;
+    }
+    
+    // Errored messages have no running task but still have a row to remove
+    if (runtime.stopCleaning(url) || store.get(url)) {
+      // Remove from database
+      try {
+        store.delete(url);
+        console.log(`✅ DB Delete successful for ${url}`);
+        stopped.push(url);
+      } catch (dbError) {
+        console.error(`❌ DB Delete failed for ${url}:`, dbError);
+        stopped.push(url); // Still consider it stopped from memory
+      }
+    } else {
+      notRunning.push(url);
+    }
+  }
+
+  let reply = "";
+  if (stopped.length)
+    reply += `🛑 **Stopped cleaning reactions for:**\n${stopped.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (notRunning.length)
+    reply += `ℹ️ **No cleaning task was running for:**\n${notRunning.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (invalid.length)
+    reply += `❌ **Invalid message URLs:**\n${invalid.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (otherGuild.length)
+    reply += `🚫 **Messages from a different server:**\n${otherGuild.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (denied.length)
+    reply += `🔒 **Missing permissions:**\n${denied.map(problem => `• ${problem}`).join("\n")}`;
+
+  if (!reply) reply = "No valid message URLs provided.";
+
+  await interaction.editReply({ content: reply.trim() });
+}
+
+async function handlePauseOrResumeReactionCleaning(interaction: CommandInteraction, { guildId, store, runtime }: CommandContext): Promise<void> {
+  const pausing = interaction.commandName === "pause-reaction-cleaning";
+  const messageUrlsRaw = interaction.options.getString("message_url", true);
+  
+  // Accept multiple URLs separated by space, comma, or newline
+  const urls = messageUrlsRaw
+    .split(/[\s,\n]+/)
+    .map((u) => u.trim())
+    .filter((u) => u.length > 0);
+
+  // Resuming refetches every message, which can take longer than the 3 second reply window
+  await interaction.deferReply({ ephemeral: true });
+
+  let changed: string[] = [];
+  let unchanged: string[] = [];
+  let notTracked: string[] = [];
+  let otherGuild: string[] = [];
+  let errors: string[] = [];
+
+  for (const url of urls) {
+    const parsed = parseMessageUrl(url);
+    if (parsed && parsed.guildId !== guildId) {
+      otherGuild.push(url);
+      continue;
+    }
+
+    const row = store.get(url);
+    if (!row) {
+      notTracked.push(url);
+      continue;
+    }
+
+    if (pausing) {
+      if (row.status === 'paused') {
+        unchanged.push(url);
+      } else {
+        runtime.pauseCleaning(row);
+        changed.push(url);
+      }
+    } else {
+      if (row.status === 'active' && runtime.cleaningTasks[url]) {
+        unchanged.push(url);
+        continue;
+      }
+      if (row.status === 'expired' || isExpired(rowToCleaningSchedule(row))) {
+        errors.push(`${url}: Expired, set a new \`expires\` with /edit-reaction-cleaning to resume it`);
+        continue;
+      }
+      const error = await runtime.resumeCleaning(row);
+      if (error) {
+        errors.push(`${url}: ${error} (will keep retrying)`);
+      } else {
+        changed.push(url);
+      }
+    }
+  }
+
+  let reply = "";
+  if (changed.length)
+    reply += `${pausing ? "⏸️ **Paused cleaning for:**" : "▶️ **Resumed cleaning for:**"}\n${changed.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (unchanged.length)
+    reply += `ℹ️ **Already ${pausing ? "paused" : "running"}:**\n${unchanged.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (notTracked.length)
+    reply += `ℹ️ **Not being tracked:**\n${notTracked.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (otherGuild.length)
+    reply += `🚫 **Messages from a different server:**\n${otherGuild.map(url => `• ${url}`).join("\n")}\n\n`;
+  if (errors.length)
+    reply += `⚠️ **Errors:**\n${errors.map(error => `• ${error}`).join("\n")}`;
+
+  if (!reply) reply = "No valid message URLs provided.";
+
+  await interaction.editReply({ content: reply.trim() });
+}
+
+async function handlePauseAllCleaning(interaction: CommandInteraction, { guildId, store, runtime }: CommandContext): Promise<void> {
+  const guildMessages = store.getGuild(guildId).filter((row) => row.status === 'active' || row.status === 'errored' || row.status === 'suspended');
+
+  if (guildMessages.length === 0) {
+    await interaction.reply(ephemeralReply("No messages are currently being cleaned."));
+    return;
+  }
+
+  for (const row of guildMessages) {
+    runtime.pauseCleaning(row);
+  }
+
+  await interaction.reply(ephemeralReply(`⏸️ Paused cleaning reactions for all \`${guildMessages.length}\` message(s).`));
+}
+
+async function handleResumeAllCleaning(interaction: CommandInteraction, { guildId, store, runtime }: CommandContext): Promise<void> {
+  // Expired messages need a new expiry time instead
+  const guildMessages = store.getGuild(guildId).filter((row) => row.status === 'paused' || row.status === 'errored' || row.status === 'suspended');
+
+  if (guildMessages.length === 0) {
+    await interaction.reply(ephemeralReply("No messages are paused or errored."));
+    return;
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+
+  let failed = 0;
+  for (const row of guildMessages) {
+    if (await runtime.resumeCleaning(row)) failed++;
+  }
+
+  await interaction.editReply({
+    content: `▶️ Resumed cleaning reactions for \`${guildMessages.length - failed}\` message(s).` +
+      (failed ? ` \`${failed}\` could not be started yet and will keep retrying, see \`/list-reaction-cleaning\`.` : ""),
+  });
+}
+
+async function handleDisableAllCleaning(interaction: CommandInteraction, { guildId, store, runtime }: CommandContext): Promise<void> {
+  const guildMessages = store.getGuild(guildId);
+  // Paused and errored messages are removed as well
+  const activeUrls = guildMessages.map((row) => row.message_url);
+  
+  if (activeUrls.length === 0) {
+    await interaction.reply(ephemeralReply("No messages are currently being tracked for cleaning."));
+    return;
+  }
+
+  // Stop all cleaning tasks
+  for (const url of activeUrls) {
+    runtime.stopCleaning(url);
+  }
+
+  // Clear all of this server's messages from database
+  try {
+    store.deleteGuild(guildId);
+    console.log(`✅ DB Clear all successful for guild ${guildId}`);
+    await interaction.reply(ephemeralReply(`🛑 Stopped cleaning reactions for all \`${activeUrls.length}\` message(s).`));
+  } catch (dbError) {
+    console.error(`❌ DB Clear all failed:`, dbError);
+    await interaction.reply(ephemeralReply(`🛑 Failed to stop cleaning reactions for all \`${activeUrls.length}\` message(s). Warning: Database clear failed.`));
+  }
+}
+
+async function handleListReactionCleaning(interaction: CommandInteraction, { guildId, runtime }: CommandContext): Promise<void> {
+  const channelFilter = interaction.options.getChannel("channel")?.id ?? null;
+
+  // Looking up channels that aren't cached can take longer than the 3 second reply window
+  await interaction.deferReply({ ephemeral: true });
+  await interaction.editReply(await runtime.buildTrackedMessageList(guildId, 0, channelFilter));
+}
+
+async function handleEnableChannelReactionCleaning(interaction: CommandInteraction, { guildId, statements, runtime }: CommandContext): Promise<void> {
+  const channel = interaction.options.getChannel("channel", true);
+
+  const existing = statements.getChannelRule.get(channel.id) as ChannelRuleRow | undefined;
+  const scope = (interaction.options.getString("scope") ?? existing?.scope ?? 'all') as ChannelRuleScope;
+
+  const optionsResult = readCleaningOptions(interaction, existing ? rowToCleaningOptions(existing) : defaultCleaningOptions);
+  if ('error' in optionsResult) {
+    await interaction.reply(ephemeralReply(optionsResult.error));
+    return;
+  }
+  const { options } = optionsResult;
+
+  // Checking permissions can take longer than the 3 second reply window
+  await interaction.deferReply({ ephemeral: true });
+  const permissionProblem = await runtime.findChannelPermissionProblem(interaction, channel.id);
+  if (permissionProblem) {
+    await interaction.editReply(`🔒 ${permissionProblem}.`);
+    return;
+  }
+
+  try {
+    const dbResult = statements.upsertChannelRule.run({
+      channel_id: channel.id,
+      guild_id: guildId,
+      scope,
+      ...cleaningOptionsToRow(options),
+    }) as DatabaseRunResult;
+    console.log(`✅ DB Upsert successful for channel rule ${channel.id}:`, dbResult);
+  } catch (dbError) {
+    console.error(`❌ DB Upsert failed for channel rule ${channel.id}:`, dbError);
+    await interaction.editReply(`⚠️ Database error - ${dbError}`);
+    return;
+  }
+
+  const row = statements.getChannelRule.get(channel.id) as ChannelRuleRow;
+  runtime.channelRules[channel.id] = rowToChannelRule(row);
+
+  const scopeText = scope === 'new' ? "new messages" : "all messages";
+  // Channel rules act on reactions as they are added, older messages aren't swept
+  const sweepNote = scope === 'all' ? "\nℹ️ Reactions already on older messages are not swept, only reactions added from now on are cleaned." : "";
+  await interaction.editReply(`${existing ? "✏️ **Updated**" : "✅ **Started**"} cleaning ${describeCleaningOptions(options)} on ${scopeText} in <#${channel.id}>${sweepNote}`);
+}
+
+async function handleDisableChannelCleaning(interaction: CommandInteraction, { statements, runtime }: CommandContext): Promise<void> {
+  const channel = interaction.options.getChannel("channel", true);
+
+  if (!runtime.channelRules[channel.id]) {
+    await interaction.reply(ephemeralReply(`ℹ️ No channel rule exists for <#${channel.id}>.`));
+    return;
+  }
+
+  const permissionProblem = await runtime.findChannelPermissionProblem(interaction, channel.id);
+  if (permissionProblem) {
+    await interaction.reply(ephemeralReply(`🔒 ${permissionProblem}.`));
+    return;
+  }
+
+  delete runtime.channelRules[channel.id];
+  try {
+    const dbResult = statements.deleteChannelRule.run(channel.id) as DatabaseRunResult;
+    console.log(`✅ DB Delete successful for channel rule ${channel.id}:`, dbResult);
+  } catch (dbError) {
+    console.error(`❌ DB Delete failed for channel rule ${channel.id}:`, dbError);
+  }
+
+  console.log(`🛑 Stopped channel rule for: ${channel.id}`);
+  await interaction.reply(ephemeralReply(`🛑 Stopped cleaning reactions in <#${channel.id}>.`));
+}
+
+async function handleListChannelCleaning(interaction: CommandInteraction, { guildId, runtime }: CommandContext): Promise<void> {
+  const rules = Object.values(runtime.channelRules).filter((rule) => rule.guildId === guildId);
+
+  if (rules.length === 0) {
+    await interaction.reply(ephemeralReply("No channels are currently being cleaned."));
+    return;
+  }
+
+  let reply = `📋 **Channel Rules** (${rules.length} total):\n\n`;
+  for (const rule of rules) {
+    const scopeText = rule.scope === 'new' ? `new messages since ${new Date(rule.createdAt).toLocaleDateString()}` : "all messages";
+    reply += `• <#${rule.channelId}> — ${scopeText}, ${describeCleaningOptions(rule.options)}\n`;
+  }
+
+  await interaction.reply(ephemeralReply(reply));
+}
+
+async function handleWatchReactionCleaning(interaction: CommandInteraction, { guildId, statements, runtime }: CommandContext): Promise<void> {
+  const channel = interaction.options.getChannel("channel", true);
+  const author = interaction.options.getUser("author");
+  const webhookId = interaction.options.getString("webhook_id");
+  const role = interaction.options.getRole("role");
+  const contentPattern = interaction.options.getString("content_pattern");
+  const maxTracked = interaction.options.getInteger("max_tracked");
+
+  if (!author && !webhookId && !role && !contentPattern) {
+    await interaction.reply(ephemeralReply("❌ Pass at least one of `author`, `webhook_id`, `role` or `content_pattern`."));
+    return;
+  }
+  if (webhookId && !snowflakePattern.test(webhookId)) {
+    await interaction.reply(ephemeralReply(`❌ \`${webhookId}\` is not a webhook ID.`));
+    return;
+  }
+  if (contentPattern) {
+    try {
+      new RegExp(contentPattern, 'i');
+    } catch (error) {
+      await interaction.reply(ephemeralReply(`❌ Invalid content pattern: ${errorMessage(error)}`));
+      return;
+    }
+  }
+
+  const optionsResult = readCleaningOptions(interaction, defaultCleaningOptions);
+  if ('error' in optionsResult) {
+    await interaction.reply(ephemeralReply(optionsResult.error));
+    return;
+  }
+  const { options } = optionsResult;
+
+  // Checking permissions can take longer than the 3 second reply window
+  await interaction.deferReply({ ephemeral: true });
+  const permissionProblem = await runtime.findChannelPermissionProblem(interaction, channel.id);
+  if (permissionProblem) {
+    await interaction.editReply(`🔒 ${permissionProblem}.`);
+    return;
+  }
+
+  let ruleId: number;
+  try {
+    const dbResult = statements.insertWatchRule.run({
+      guild_id: guildId,
+      channel_id: channel.id,
+      author_id: author?.id ?? null,
+      webhook_id: webhookId,
+      role_id: role?.id ?? null,
+      content_pattern: contentPattern,
+      max_tracked: maxTracked,
+      ...cleaningOptionsToRow(options),
+    }) as DatabaseRunResult;
+    console.log(`✅ DB Insert successful for watch rule in ${channel.id}:`, dbResult);
+    ruleId = Number(dbResult.lastInsertRowid);
+  } catch (dbError) {
+    console.error(`❌ DB Insert failed for watch rule in ${channel.id}:`, dbError);
+    await interaction.editReply(`⚠️ Database error - ${dbError}`);
+    return;
+  }
+
+  const rule = rowToWatchRule(statements.getWatchRule.get(ruleId) as WatchRuleRow);
+  runtime.watchRules[ruleId] = rule;
+
+  const capText = maxTracked ? `, keeping the newest ${maxTracked}` : "";
+  await interaction.editReply({
+    content: `👀 **Watch rule #${ruleId} created:** new messages in <#${channel.id}> ${describeWatchRule(rule)} will be cleaned ${describeCleaningOptions(options)}${capText}.`,
+    allowedMentions: { parse: [] },
+  });
+}
+
+async function handleListWatchRules(interaction: CommandInteraction, { guildId, store, runtime }: CommandContext): Promise<void> {
+  const rules = Object.values(runtime.watchRules).filter((rule) => rule.guildId === guildId);
+
+  if (rules.length === 0) {
+    await interaction.reply(ephemeralReply("No watch rules are set up."));
+    return;
+  }
+
+  let reply = `👀 **Watch Rules** (${rules.length} total):\n\n`;
+  for (const rule of rules) {
+    const trackedCount = store.getByWatchRule(rule.id).length;
+    const capText = rule.maxTracked ? `/${rule.maxTracked}` : "";
+    reply += `• **#${rule.id}** <#${rule.channelId}> ${describeWatchRule(rule)} — ${describeCleaningOptions(rule.options)}, ${trackedCount}${capText} tracked\n`;
+  }
+
+  await interaction.reply({ content: reply, ephemeral: true, allowedMentions: { parse: [] } });
+}
+
+async function handleDeleteWatchRule(interaction: CommandInteraction, { guildId, db, store, statements, runtime }: CommandContext): Promise<void> {
+  const ruleId = interaction.options.getInteger("id", true);
+  const untrack = interaction.options.getBoolean("untrack") ?? false;
+  const rule = runtime.watchRules[ruleId];
+
+  if (!rule || rule.guildId !== guildId) {
+    await interaction.reply(ephemeralReply(`ℹ️ No watch rule #${ruleId} exists.`));
+    return;
+  }
+
+  const trackedRows = store.getByWatchRule(ruleId);
+  try {
+    const deleteAll = db.transaction(() => {
+      statements.deleteWatchRule.run(ruleId);
+      if (untrack) {
+        for (const row of trackedRows) store.delete(row.message_url);
+      } else {
+        store.clearWatchRule(ruleId);
+      }
+    });
+    deleteAll();
+  } catch (dbError) {
+    console.error(`❌ DB Delete failed for watch rule #${ruleId}:`, dbError);
+    await interaction.reply(ephemeralReply(`⚠️ Database error - ${dbError}`));
+    return;
+  }
+
+  delete runtime.watchRules[ruleId];
+  if (untrack) {
+    for (const row of trackedRows) runtime.stopCleaning(row.message_url);
+  }
+
+  console.log(`🛑 Deleted watch rule #${ruleId}`);
+  await interaction.reply(ephemeralReply(untrack
+    ? `🛑 Deleted watch rule #${ruleId} and stopped cleaning the ${trackedRows.length} message(s) it tracked.`
+    : `🛑 Deleted watch rule #${ruleId}. The ${trackedRows.length} message(s) it tracked are still cleaned.`));
+}
+
+async function handleReactionVotes(interaction: CommandInteraction, { guildId, store, statements }: CommandContext): Promise<void> {
+  const messageUrl = interaction.options.getString("message_url", true).trim();
+  const parsed = parseMessageUrl(messageUrl);
+  if (!parsed || parsed.guildId !== guildId) {
+    await interaction.reply(ephemeralReply("❌ Invalid message URL, or it points to a different server."));
+    return;
+  }
+
+  const row = store.getByMessageId(parsed.messageId).find((message) => message.guild_id === guildId);
+  const seeds = row ? JSON.parse(row.seed_reactions) as string[] : [];
+  if (seeds.length === 0) {
+    await interaction.reply(ephemeralReply("ℹ️ This message has no seed reactions. Add them with `/edit-reaction-cleaning seed_reactions`."));
+    return;
+  }
+
+  // Votes are the users whose seed reactions were removed, each user counts once per emoji
+  const votes = new Map((statements.getMessageVotes.all(parsed.messageId) as VoteCountRow[]).map((entry) => [entry.emoji, entry.votes]));
+  let reply = `🗳️ **Votes on ${messageUrl}:**\n`;
+  for (const seed of seeds) {
+    const count = votes.get(seedKey(seed)) ?? 0;
+    reply += `${formatSeedReaction(seed)} — ${count} vote${count === 1 ? "" : "s"}\n`;
+  }
+
+  await interaction.reply(ephemeralReply(reply.trim()));
+}
+
+async function handleReactionCleaningReport(interaction: CommandInteraction, { guildId, store, runtime }: CommandContext): Promise<void> {
+  const messageUrl = interaction.options.getString("message_url");
+  let row: TrackedMessage | undefined;
+
+  if (messageUrl) {
+    const parsed = parseMessageUrl(messageUrl);
+    if (!parsed || parsed.guildId !== guildId) {
+      await interaction.reply(ephemeralReply("❌ Invalid message URL, or it points to a different server."));
+      return;
+    }
+    row = store.getByMessageId(parsed.messageId).find((message) => message.guild_id === guildId);
+  }
+
+  const messageId = messageUrl ? parseMessageUrl(messageUrl)!.messageId : null;
+  const embed = runtime.buildObservationReport(guildId, messageId);
+
+  // Offer to start removing what was observed
+  let button: ButtonBuilder | null = null;
+  if (messageId) {
+    if (row?.observe) button = new ButtonBuilder().setCustomId(`observe:enforce:${messageId}`).setLabel("Start removing reactions");
+  } else {
+    const observedCount = store.getGuild(guildId).filter((message) => message.observe).length
+      + Object.values(runtime.channelRules).filter((rule) => rule.guildId === guildId && rule.options.observe).length
+      + Object.values(runtime.watchRules).filter((rule) => rule.guildId === guildId && rule.options.observe).length;
+    if (observedCount) button = new ButtonBuilder().setCustomId("observe:enforce-all").setLabel(`Start removing on all ${observedCount} observed message(s) and rule(s)`);
+  }
+  const components = button ? [new ActionRowBuilder<ButtonBuilder>().addComponents(button.setStyle(ButtonStyle.Danger))] : [];
+
+  await interaction.reply({ embeds: [embed], components, ephemeral: true, allowedMentions: { parse: [] } });
+}
+
+async function handleReactionAudit(interaction: CommandInteraction, { guildId, db }: CommandContext): Promise<void> {
+  const user = interaction.options.getUser("user");
+  const messageUrl = interaction.options.getString("message_url");
+  const sinceRaw = interaction.options.getString("since");
+  const untilRaw = interaction.options.getString("until");
+  const limit = interaction.options.getInteger("limit") ?? 20;
+
+  const conditions = ["guild_id = @guild_id"];
+  const params: Record<string, string | number> = { guild_id: guildId, limit };
+
+  if (user) {
+    conditions.push("user_id = @user_id");
+    params.user_id = user.id;
+  }
+  if (messageUrl) {
+    const parsed = parseMessageUrl(messageUrl);
+    if (!parsed || parsed.guildId !== guildId) {
+      await interaction.reply(ephemeralReply("❌ Invalid message URL, or it points to a different server."));
+      return;
+    }
+    conditions.push("message_id = @message_id");
+    params.message_id = parsed.messageId;
+  }
+  for (const [raw, column, operator] of [[sinceRaw, "since", ">="], [untilRaw, "until", "<="]] as const) {
+    if (!raw) continue;
+    const date = parseTimeInput(raw);
+    if (!date) {
+      await interaction.reply(ephemeralReply(`❌ Could not read \`${column}\`. Use a duration like \`24h\` or a date like \`2024-05-01\`.`));
+      return;
+    }
+    conditions.push(`removed_at ${operator} @${column}`);
+    params[column] = toSqliteTimestamp(date);
+  }
+
+  const where = conditions.join(" AND ");
+  const { count } = db.prepare(`SELECT COUNT(*) as count FROM reaction_audit WHERE ${where}`).get(params) as CountResult;
+  const entries = db.prepare(`SELECT * FROM reaction_audit WHERE ${where} ORDER BY removed_at DESC, id DESC LIMIT @limit`).all(params) as ReactionAuditRow[];
+
+  if (entries.length === 0) {
+    await interaction.reply(ephemeralReply("No removed reactions match these filters."));
+    return;
+  }
+
+  let reply = `🔎 **Removed Reactions** (showing ${entries.length} of ${count}, newest first):\n\n`;
+  for (const entry of entries) {
+    const removedAt = Math.floor(parseSqliteTimestamp(entry.removed_at).getTime() / 1000);
+    const line = `<t:${removedAt}:f> ${describeAuditUser(entry.user_id, entry.removed_count)} ${formatEmojiKey(entry.emoji)} on ${messageLink(entry.guild_id, entry.channel_id, entry.message_id)} (${describeAuditRule(entry.rule)})\n`;
+    // Keep within Discord's 2000 character message limit
+    if (reply.length + line.length > 1950) {
+      reply += "…";
+      break;
+    }
+    reply += line;
+  }
+
+  await interaction.reply({ ...ephemeralReply(reply), allowedMentions: { parse: [] } });
+}
+
+async function handleExportReactionCleaning(interaction: CommandInteraction, { guildId, runtime }: CommandContext): Promise<void> {
+  const data = runtime.exportGuildConfiguration(guildId);
+  const file = new AttachmentBuilder(Buffer.from(JSON.stringify(data, null, 2)), { name: `reaction-cleaning-${guildId}.json` });
+
+  await interaction.reply({
+    content: `📤 **Exported ${data.channelRules.length} channel rule(s), ${data.watchRules.length} watch rule(s) and ${data.trackedMessages.length} tracked message(s).**`,
+    files: [file],
+    ephemeral: true,
+  });
+}
+
+async function handleImportReactionCleaning(interaction: CommandInteraction, { guildId, runtime }: CommandContext): Promise<void> {
+  const attachment = interaction.options.getAttachment("file", true);
+  const replace = interaction.options.getBoolean("replace") ?? false;
+
+  if (attachment.size > maxImportFileBytes) {
+    await interaction.reply(ephemeralReply(`❌ The file is too large, the limit is ${maxImportFileBytes / 1_000_000} MB.`));
+    return;
+  }
+
+  // Downloading the file can take longer than the 3 second reply window
+  await interaction.deferReply({ ephemeral: true });
+
+  let data: unknown;
+  try {
+    const response = await fetch(attachment.url);
+    if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+    data = JSON.parse(await response.text());
+  } catch (error) {
+    await interaction.editReply({ content: `❌ Could not read the file: ${errorMessage(error)}` });
+    return;
+  }
+
+  const result = runtime.validateImport(data, guildId);
+  if ('errors' in result) {
+    const shown = result.errors.slice(0, 15).map((error) => `• ${error}`).join("\n");
+    const more = result.errors.length > 15 ? `\n• …and ${result.errors.length - 15} more` : "";
+    await interaction.editReply({ content: `❌ **The file can't be imported:**\n${shown}${more}` });
+    return;
+  }
+
+  // Forget previews nobody confirmed
+  for (const [importId, pending] of Object.entries(runtime.pendingImports)) {
+    if (pending.expiresAt < Date.now()) delete runtime.pendingImports[importId];
+  }
+
+  const pending: PendingImport = {
+    guildId,
+    userId: interaction.user.id,
+    replace,
+    data: result.data,
+    expiresAt: Date.now() + pendingImportTtlMs,
+  };
+  runtime.pendingImports[interaction.id] = pending;
+
+  await interaction.editReply({
+    content: runtime.describeImportDiff(runtime.diffImport(pending), replace),
+    components: [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`import:apply:${interaction.id}`)
+          .setLabel("Apply import")
+          .setStyle(ButtonStyle.Success),
+        new ButtonBuilder()
+          .setCustomId(`import:cancel:${interaction.id}`)
+          .setLabel("Cancel")
+          .setStyle(ButtonStyle.Secondary),
+      ),
+    ],
+  });
+}
+
+async function handleSetReactionLogChannel(interaction: CommandInteraction, { guildId, statements, runtime }: CommandContext): Promise<void> {
+  const channel = interaction.options.getChannel("channel");
+
+  try {
+    const dbResult = statements.setLogChannel.run(guildId, channel?.id ?? null) as DatabaseRunResult;
+    console.log(`✅ DB Log channel update successful for guild ${guildId}:`, dbResult);
+  } catch (dbError) {
+    console.error(`❌ DB Log channel update failed for guild ${guildId}:`, dbError);
+    await interaction.reply(ephemeralReply(`⚠️ Database error - ${dbError}`));
+    return;
+  }
+
+  if (!channel) delete runtime.pendingAuditLog[guildId];
+  await interaction.reply(ephemeralReply(channel
+    ? `📝 Removed reactions will be summarized in <#${channel.id}> every minute.`
+    : "📝 Removed reactions will no longer be posted to a log channel."));
+}
+
+async function handleSetReactionReportChannel(interaction: CommandInteraction, { guildId, statements, runtime }: CommandContext): Promise<void> {
+  const channel = interaction.options.getChannel("channel");
+  const cadenceOption = interaction.options.getString("cadence") as ReportCadence | null;
+  const settings = statements.getGuildSettings.get(guildId) as GuildSettingsRow | undefined;
+
+  // Changing only the cadence keeps posting in the current channel
+  const channelId = channel?.id ?? (cadenceOption ? settings?.report_channel_id ?? null : null);
+  if (cadenceOption && !channelId) {
+    await interaction.reply(ephemeralReply("❌ No report channel is set, pick a `channel` to start posting reports."));
+    return;
+  }
+  const cadence = cadenceOption ?? settings?.report_cadence ?? 'daily';
+
+  if (channel) {
+    const permissionProblem = await runtime.findReportChannelProblem(interaction, channel.id);
+    if (permissionProblem) {
+      await interaction.reply(ephemeralReply(`🔒 ${permissionProblem}.`));
+      return;
+    }
+  }
+
+  // A new channel starts a full period from now, a new cadence counts from the previous report
+  const sentAt = channelId && !channel && settings?.report_sent_at ? settings.report_sent_at : toSqliteTimestamp(new Date());
+  try {
+    const dbResult = statements.setReportSchedule.run({
+      guild_id: guildId,
+      report_channel_id: channelId,
+      report_cadence: cadence,
+      report_sent_at: channelId ? sentAt : null,
+    }) as DatabaseRunResult;
+    console.log(`✅ DB Report channel update successful for guild ${guildId}:`, dbResult);
+  } catch (dbError) {
+    console.error(`❌ DB Report channel update failed for guild ${guildId}:`, dbError);
+    await interaction.reply(ephemeralReply(`⚠️ Database error - ${dbError}`));
+    return;
+  }
+
+  const nextReportAt = new Date(parseSqliteTimestamp(sentAt).getTime() + reportCadenceMs[cadence]);
+  await interaction.reply(ephemeralReply(channelId
+    ? `📊 A ${cadence} cleaning report will be posted in <#${channelId}>, the next one <t:${Math.floor(nextReportAt.getTime() / 1000)}:R>.`
+    : "📊 Cleaning reports will no longer be posted."));
+}
+
+async function handleReactionCleaningReportNow(interaction: CommandInteraction, { guildId, statements, runtime }: CommandContext): Promise<void> {
+  const settings = statements.getGuildSettings.get(guildId) as GuildSettingsRow | undefined;
+  const cadence = settings?.report_cadence ?? 'daily';
+  const until = new Date();
+  const embed = runtime.buildCleaningReport(guildId, new Date(until.getTime() - reportCadenceMs[cadence]), until, cadence);
+
+  // Without a report channel the report is only shown to the moderator who asked for it
+  if (!settings?.report_channel_id) {
+    await interaction.reply({ content: "ℹ️ No report channel is set, use `/set-reaction-report-channel` to post reports automatically.", embeds: [embed], ephemeral: true, allowedMentions: { parse: [] } });
+    return;
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+  try {
+    await runtime.sendCleaningReport(settings.report_channel_id, embed);
+    await interaction.editReply(`📊 Posted the cleaning report in <#${settings.report_channel_id}>.`);
+  } catch (error) {
+    console.error(`❌ Failed to post cleaning report for guild ${guildId}:`, error);
+    await interaction.editReply(`❌ Could not post the report in <#${settings.report_channel_id}>: ${errorMessage(error)}`);
+  }
+}
+
+async function handleReactionCleanerSettings(interaction: CommandInteraction, { guildId, statements }: CommandContext): Promise<void> {
+  const managerRole = interaction.options.getRole("manager_role");
+  const clearManagerRole = interaction.options.getBoolean("clear_manager_role") ?? false;
+
+  if (managerRole && clearManagerRole) {
+    await interaction.reply(ephemeralReply("❌ Pass either `manager_role` or `clear_manager_role`, not both."));
+    return;
+  }
+
+  const unarchiveThreads = interaction.options.getBoolean("unarchive_threads");
+
+  try {
+    if (managerRole || clearManagerRole) {
+      const dbResult = statements.setManagerRole.run(guildId, managerRole?.id ?? null) as DatabaseRunResult;
+      console.log(`✅ DB Manager role update successful for guild ${guildId}:`, dbResult);
+    }
+    if (unarchiveThreads !== null) {
+      const dbResult = statements.setUnarchiveThreads.run(guildId, unarchiveThreads ? 1 : 0) as DatabaseRunResult;
+      console.log(`✅ DB Unarchive threads update successful for guild ${guildId}:`, dbResult);
+    }
+  } catch (dbError) {
+    console.error(`❌ DB Settings update failed for guild ${guildId}:`, dbError);
+    await interaction.reply(ephemeralReply(`⚠️ Database error - ${dbError}`));
+    return;
+  }
+
+  const settings = statements.getGuildSettings.get(guildId) as GuildSettingsRow | undefined;
+  let reply = managerRole ? `✅ Members with <@&${managerRole.id}> can now use the cleaning commands.\n\n`
+    : clearManagerRole ? "✅ Removed the manager role.\n\n" : "";
+  reply += `⚙️ **Settings**\n`;
+  reply += `• Manager role: ${settings?.manager_role_id ? `<@&${settings.manager_role_id}>` : "none, only members with Manage Messages"}\n`;
+  reply += `• Log channel: ${settings?.log_channel_id ? `<#${settings.log_channel_id}>` : "none"}\n`;
+  reply += `• Report channel: ${settings?.report_channel_id ? `<#${settings.report_channel_id}>, ${settings.report_cadence}` : "none"}\n`;
+  reply += `• Archived threads: ${settings?.unarchive_threads ? "unarchived so cleaning continues" : "cleaning is suspended until the thread is reopened"}`;
+  if (settings?.manager_role_id) {
+    reply += "\n\n*Discord hides the commands from members without Manage Messages. Allow the manager role to see them under Server Settings → Integrations.*";
+  }
+
+  await interaction.reply({ content: reply, ephemeral: true, allowedMentions: { parse: [] } });
+}
+
+async function handlePing(interaction: CommandInteraction, { client }: CommandContext): Promise<void> {
+  const start = Date.now();
+  await interaction.reply(ephemeralReply("Pinging..."));
+  const end = Date.now();
+  
+  await interaction.editReply({
+    content: `🏓 Pong! Latency: ${end - start}ms | WebSocket: ${Math.round(client.ws.ping)}ms`
+  });
+}
+
+async function handleSourceCode(interaction: CommandInteraction, _context: CommandContext): Promise<void> {
+  const isEphemeral = interaction.options.getBoolean("ephemeral") ?? true; // Default to true if not specified
+  await interaction.reply(ephemeralReply("The source code for this bot can be found [here](<https://github.com/giralal/Reaction-Cleaner-Bot>)", isEphemeral));
+}
+
+// Chat input commands by name
+export const commandHandlers: Record<string, CommandHandler> = {
+  "enable-reaction-cleaning": handleEnableReactionCleaning,
+  "edit-reaction-cleaning": handleEditReactionCleaning,
+  "disable-reaction-cleaning": handleDisableReactionCleaning,
+  "pause-reaction-cleaning": handlePauseOrResumeReactionCleaning,
+  "resume-reaction-cleaning": handlePauseOrResumeReactionCleaning,
+  "pause-all-cleaning": handlePauseAllCleaning,
+  "resume-all-cleaning": handleResumeAllCleaning,
+  "disable-all-cleaning": handleDisableAllCleaning,
+  "list-reaction-cleaning": handleListReactionCleaning,
+  "enable-channel-reaction-cleaning": handleEnableChannelReactionCleaning,
+  "disable-channel-cleaning": handleDisableChannelCleaning,
+  "list-channel-cleaning": handleListChannelCleaning,
+  "watch-reaction-cleaning": handleWatchReactionCleaning,
+  "list-watch-rules": handleListWatchRules,
+  "delete-watch-rule": handleDeleteWatchRule,
+  "reaction-votes": handleReactionVotes,
+  "reaction-cleaning-report": handleReactionCleaningReport,
+  "reaction-audit": handleReactionAudit,
+  "export-reaction-cleaning": handleExportReactionCleaning,
+  "import-reaction-cleaning": handleImportReactionCleaning,
+  "set-reaction-log-channel": handleSetReactionLogChannel,
+  "set-reaction-report-channel": handleSetReactionReportChannel,
+  "reaction-cleaning-report-now": handleReactionCleaningReportNow,
+  "reaction-cleaner-settings": handleReactionCleanerSettings,
+  "ping": handlePing,
+  "source-code": handleSourceCode,
+};
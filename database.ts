@@ -0,0 +1,590 @@
+import Database from "better-sqlite3";
+import { existsSync, mkdirSync, } from "fs";
+import path from "path";
+import { parseMessageUrl } from "./cleaning";
+
+// Where the bot and the admin CLI keep their data, relative to where they are started
+export const dataDir = path.join(process.cwd(), '.data');
+export const dbPath = path.join(dataDir, 'reaction_cleaner.db');
+
+// Function to ensure data directory and database exist
+export function ensureDataDirectoryAndDatabase(dataDir: string, dbPath: string): void {
+  console.log('🔧 Checking data directory and database...');
+  
+  // Check and create data directory
+  if (!existsSync(dataDir)) {
+    console.log(`📁 Data directory doesn't exist. Creating: ${dataDir}`);
+    try {
+      mkdirSync(dataDir, { recursive: true, mode: 0o775 });
+      console.log('✅ Data directory created successfully');
+    } catch (error) {
+      console.error('❌ Failed to create data directory:', error);
+      throw new Error(`Cannot create data directory: ${dataDir}`);
+    }
+  } else {
+    console.log('✅ Data directory already exists');
+  }
+  
+  // Test write permissions by creating a test file
+  const testFile = path.join(dataDir, 'test-write-permissions.tmp');
+  try {
+    const fs = require('fs');
+    fs.writeFileSync(testFile, 'test');
+    fs.unlinkSync(testFile);
+    console.log('✅ Write permissions verified for data directory');
+  } catch (writeError) {
+    console.error('❌ No write permissions to data directory:', writeError);
+    console.error('Directory stats:', require('fs').statSync(dataDir));
+    console.error('Process UID:', process.getuid?.() || 'unknown');
+    console.error('Process GID:', process.getgid?.() || 'unknown');
+    throw new Error(`Cannot write to data directory: ${dataDir}`);
+  }
+  
+  // Check database file
+  if (!existsSync(dbPath)) {
+    console.log(`🗄️ Database file doesn't exist. It will be created: ${dbPath}`);
+    // Try to pre-create the database file with proper permissions
+    try {
+      const fs = require('fs');
+      fs.writeFileSync(dbPath, '', { mode: 0o664 });
+      console.log('✅ Database file pre-created successfully');
+    } catch (createError) {
+      console.warn('⚠️ Could not pre-create database file (SQLite will try):', createError);
+    }
+  } else {
+    console.log('✅ Database file already exists');
+    try {
+      const fs = require('fs');
+      const stats = fs.statSync(dbPath);
+      console.log('Database file stats:', {
+        size: stats.size,
+        mode: '0' + (stats.mode & parseInt('777', 8)).toString(8),
+        uid: stats.uid,
+        gid: stats.gid
+      });
+    } catch (statError) {
+      console.warn('⚠️ Could not get database file stats:', statError);
+    }
+  }
+}
+
+// A single step of the database schema. Versions are applied in ascending order and never edited once released.
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// Add a column unless it already exists. Databases created before migrations were tracked may already have it.
+export function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((c) => c.name);
+  if (!columns.includes(column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_tracked_messages',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS tracked_messages (
+          message_url TEXT PRIMARY KEY,
+          channel_id TEXT NOT NULL,
+          message_id TEXT NOT NULL,
+          added_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'add_tracked_message_cleaning_options',
+    up: (db) => {
+      addColumnIfMissing(db, 'tracked_messages', 'emoji_filter_mode', "TEXT NOT NULL DEFAULT 'all'");
+      addColumnIfMissing(db, 'tracked_messages', 'emoji_filter', "TEXT NOT NULL DEFAULT '[]'");
+      addColumnIfMissing(db, 'tracked_messages', 'exempt_roles', "TEXT NOT NULL DEFAULT '[]'");
+      addColumnIfMissing(db, 'tracked_messages', 'exempt_users', "TEXT NOT NULL DEFAULT '[]'");
+      addColumnIfMissing(db, 'tracked_messages', 'target_users', "TEXT NOT NULL DEFAULT '[]'");
+    },
+  },
+  {
+    version: 3,
+    name: 'create_channel_rules',
+    up: (db) => {
+      // Rules that clean every message in a channel, thread, forum or category
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS channel_rules (
+          channel_id TEXT PRIMARY KEY,
+          guild_id TEXT NOT NULL,
+          scope TEXT NOT NULL DEFAULT 'all',
+          emoji_filter_mode TEXT NOT NULL DEFAULT 'all',
+          emoji_filter TEXT NOT NULL DEFAULT '[]',
+          exempt_roles TEXT NOT NULL DEFAULT '[]',
+          exempt_users TEXT NOT NULL DEFAULT '[]',
+          target_users TEXT NOT NULL DEFAULT '[]',
+          added_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'add_tracked_message_guild_id',
+    up: (db) => {
+      addColumnIfMissing(db, 'tracked_messages', 'guild_id', 'TEXT');
+
+      // Fill in guild_id for rows tracked before the column existed, using the guild in their URL
+      const rows = db.prepare("SELECT message_url FROM tracked_messages WHERE guild_id IS NULL").all() as Array<{ message_url: string }>;
+      const setGuildId = db.prepare("UPDATE tracked_messages SET guild_id = ? WHERE message_url = ?");
+      for (const row of rows) {
+        const parsed = parseMessageUrl(row.message_url);
+        if (parsed) setGuildId.run(parsed.guildId, row.message_url);
+      }
+    },
+  },
+  {
+    version: 5,
+    name: 'create_reaction_audit_and_guild_settings',
+    up: (db) => {
+      // One row per removed reaction, rule is 'message' or 'channel:<id>'
+      db.exec(`
+        CREATE TABLE reaction_audit (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          guild_id TEXT NOT NULL,
+          channel_id TEXT NOT NULL,
+          message_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          emoji TEXT NOT NULL,
+          rule TEXT NOT NULL,
+          removed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.exec("CREATE INDEX idx_reaction_audit_guild_removed_at ON reaction_audit (guild_id, removed_at)");
+
+      db.exec(`
+        CREATE TABLE guild_settings (
+          guild_id TEXT PRIMARY KEY,
+          log_channel_id TEXT
+        )
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'add_tracked_message_status',
+    up: (db) => {
+      // status is a TrackedMessageStatus, failure_count counts consecutive failures
+      db.exec("ALTER TABLE tracked_messages ADD COLUMN status TEXT NOT NULL DEFAULT 'active'");
+      db.exec("ALTER TABLE tracked_messages ADD COLUMN last_error TEXT");
+      db.exec("ALTER TABLE tracked_messages ADD COLUMN failure_count INTEGER NOT NULL DEFAULT 0");
+    },
+  },
+  {
+    version: 7,
+    name: 'add_tracked_message_schedule',
+    up: (db) => {
+      // Window bounds are minutes since midnight UTC, window_days is a JSON array of UTC weekdays (0 = Sunday)
+      db.exec("ALTER TABLE tracked_messages ADD COLUMN expires_at DATETIME");
+      db.exec("ALTER TABLE tracked_messages ADD COLUMN window_start INTEGER");
+      db.exec("ALTER TABLE tracked_messages ADD COLUMN window_end INTEGER");
+      db.exec("ALTER TABLE tracked_messages ADD COLUMN window_days TEXT NOT NULL DEFAULT '[]'");
+    },
+  },
+  {
+    version: 8,
+    name: 'add_reaction_caps',
+    up: (db) => {
+      for (const table of ['tracked_messages', 'channel_rules']) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN max_distinct_emojis INTEGER`);
+        db.exec(`ALTER TABLE ${table} ADD COLUMN max_per_emoji INTEGER`);
+      }
+    },
+  },
+  {
+    version: 9,
+    name: 'add_grace_period_and_pending_removals',
+    up: (db) => {
+      for (const table of ['tracked_messages', 'channel_rules']) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN grace_seconds INTEGER`);
+      }
+
+      // Reactions waiting out their grace period, emoji_identifier is the form the API expects
+      db.exec(`
+        CREATE TABLE pending_removals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          guild_id TEXT NOT NULL,
+          channel_id TEXT NOT NULL,
+          message_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          emoji TEXT NOT NULL,
+          emoji_identifier TEXT NOT NULL,
+          rule TEXT NOT NULL,
+          due_at DATETIME NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          UNIQUE (message_id, user_id, emoji)
+        )
+      `);
+      db.exec("CREATE INDEX idx_pending_removals_due_at ON pending_removals (due_at)");
+    },
+  },
+  {
+    version: 10,
+    name: 'add_guild_manager_role',
+    up: (db) => {
+      db.exec("ALTER TABLE guild_settings ADD COLUMN manager_role_id TEXT");
+    },
+  },
+  {
+    version: 11,
+    name: 'add_guild_unarchive_threads',
+    up: (db) => {
+      db.exec("ALTER TABLE guild_settings ADD COLUMN unarchive_threads INTEGER NOT NULL DEFAULT 0");
+    },
+  },
+  {
+    version: 12,
+    name: 'create_watch_rules',
+    up: (db) => {
+      // Rules that start tracking new messages in a channel when they match every criterion that is set
+      db.exec(`
+        CREATE TABLE watch_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          guild_id TEXT NOT NULL,
+          channel_id TEXT NOT NULL,
+          author_id TEXT,
+          webhook_id TEXT,
+          role_id TEXT,
+          content_pattern TEXT,
+          max_tracked INTEGER,
+          emoji_filter_mode TEXT NOT NULL DEFAULT 'all',
+          emoji_filter TEXT NOT NULL DEFAULT '[]',
+          exempt_roles TEXT NOT NULL DEFAULT '[]',
+          exempt_users TEXT NOT NULL DEFAULT '[]',
+          target_users TEXT NOT NULL DEFAULT '[]',
+          max_distinct_emojis INTEGER,
+          max_per_emoji INTEGER,
+          grace_seconds INTEGER,
+          added_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      db.exec("ALTER TABLE tracked_messages ADD COLUMN watch_rule_id INTEGER");
+    },
+  },
+  {
+    version: 13,
+    name: 'add_observe_mode',
+    up: (db) => {
+      for (const table of ['tracked_messages', 'channel_rules', 'watch_rules']) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN observe INTEGER NOT NULL DEFAULT 0`);
+      }
+
+      // Reactions that would have been removed in observe mode, each one is only counted once
+      db.exec(`
+        CREATE TABLE reaction_observations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          guild_id TEXT NOT NULL,
+          channel_id TEXT NOT NULL,
+          message_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          emoji TEXT NOT NULL,
+          rule TEXT NOT NULL,
+          observed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (message_id, user_id, emoji)
+        )
+      `);
+      db.exec("CREATE INDEX idx_reaction_observations_guild ON reaction_observations (guild_id, message_id)");
+    },
+  },
+  {
+    version: 14,
+    name: 'add_seed_reactions',
+    up: (db) => {
+      // Emojis the bot keeps on the message from its own account, in order
+      db.exec("ALTER TABLE tracked_messages ADD COLUMN seed_reactions TEXT NOT NULL DEFAULT '[]'");
+    },
+  },
+  {
+    version: 15,
+    name: 'create_command_registrations',
+    up: (db) => {
+      // Hash of the command definitions last registered globally ('global') or in a guild (its ID)
+      db.exec(`
+        CREATE TABLE command_registrations (
+          target TEXT PRIMARY KEY,
+          command_hash TEXT NOT NULL,
+          registered_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: 'add_cleaning_reports',
+    up: (db) => {
+      db.exec("ALTER TABLE guild_settings ADD COLUMN report_channel_id TEXT");
+      db.exec("ALTER TABLE guild_settings ADD COLUMN report_cadence TEXT NOT NULL DEFAULT 'daily'");
+      db.exec("ALTER TABLE guild_settings ADD COLUMN report_sent_at DATETIME");
+    },
+  },
+  {
+    version: 17,
+    name: 'add_bulk_audit_entries',
+    up: (db) => {
+      // A whole emoji removed at once is one entry without a user, counting every reaction it removed
+      db.exec("ALTER TABLE reaction_audit ADD COLUMN removed_count INTEGER NOT NULL DEFAULT 1");
+      // Old entries are pruned by age across all guilds
+      db.exec("CREATE INDEX idx_reaction_audit_removed_at ON reaction_audit (removed_at)");
+    },
+  },
+  {
+    version: 18,
+    name: 'create_reaction_votes',
+    up: (db) => {
+      // Votes on seed reactions, kept apart from the audit log so pruning it doesn't lose them
+      db.exec(`
+        CREATE TABLE reaction_votes (
+          guild_id TEXT NOT NULL,
+          channel_id TEXT NOT NULL,
+          message_id TEXT NOT NULL,
+          emoji TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          voted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (message_id, emoji, user_id)
+        )
+      `);
+      // Votes used to be counted from the audit log, unseeded emojis in there are never asked for
+      db.exec(`
+        INSERT OR IGNORE INTO reaction_votes (guild_id, channel_id, message_id, emoji, user_id, voted_at)
+        SELECT guild_id, channel_id, message_id, emoji, user_id, MIN(removed_at) FROM reaction_audit
+        WHERE rule = 'message' AND user_id != '*' GROUP BY message_id, emoji, user_id
+      `);
+    },
+  },
+];
+
+// Apply every pending migration in one transaction, so a failure leaves the database exactly as it was
+export function runMigrations(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  const applied = new Set((db.prepare("SELECT version FROM schema_migrations").all() as Array<{ version: number }>).map((row) => row.version));
+  const latestVersion = Math.max(...migrations.map((migration) => migration.version));
+  const unknown = [...applied].filter((version) => version > latestVersion);
+  if (unknown.length) {
+    throw new Error(`Database has schema version ${Math.max(...unknown)} but this build only knows up to ${latestVersion}. Refusing to start an older bot on a newer database.`);
+  }
+
+  const pending = migrations
+    .filter((migration) => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) {
+    console.log(`✅ Database schema is up to date (version ${latestVersion})`);
+    return;
+  }
+
+  const recordMigration = db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)");
+  const applyPending = db.transaction(() => {
+    for (const migration of pending) {
+      console.log(`🔧 Applying migration ${migration.version}: ${migration.name}`);
+      migration.up(db);
+      recordMigration.run(migration.version, migration.name);
+    }
+  });
+
+  applyPending();
+  console.log(`✅ Applied ${pending.length} migration(s), database schema is at version ${latestVersion}`);
+}
+
+// Cleaning option columns shared by tracked messages and channel rules
+export interface CleaningOptionColumns {
+  emoji_filter_mode: EmojiFilterMode;
+  emoji_filter: string; // JSON array of emoji keys
+  exempt_roles: string; // JSON array of role IDs
+  exempt_users: string; // JSON array of user IDs
+  target_users: string; // JSON array of user IDs
+  max_distinct_emojis: number | null;
+  max_per_emoji: number | null;
+  grace_seconds: number | null;
+  observe: number; // 1 to only record what would be removed
+}
+
+// How the emoji list of a tracked message is applied:
+// all = remove every reaction, allow = keep only listed emojis, deny = remove only listed emojis
+export type EmojiFilterMode = 'all' | 'allow' | 'deny';
+
+// Which messages of a channel a channel rule applies to: all of them, or only ones posted after the rule was added
+export type ChannelRuleScope = 'all' | 'new';
+
+// Database row of a channel rule
+export interface ChannelRuleRow extends CleaningOptionColumns {
+  channel_id: string;
+  guild_id: string;
+  scope: ChannelRuleScope;
+  added_at: string;
+}
+
+// Database row of a watch rule
+export interface WatchRuleRow extends CleaningOptionColumns {
+  id: number;
+  guild_id: string;
+  channel_id: string;
+  author_id: string | null;
+  webhook_id: string | null;
+  role_id: string | null;
+  content_pattern: string | null;
+  max_tracked: number | null;
+  added_at: string;
+}
+
+// Database row of a removed reaction
+export interface ReactionAuditRow {
+  id: number;
+  guild_id: string;
+  channel_id: string;
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  rule: string;
+  removed_count: number;
+  removed_at: string;
+}
+
+// Database row of a reaction waiting out its grace period
+export interface PendingRemovalRow {
+  id: number;
+  guild_id: string;
+  channel_id: string;
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  emoji_identifier: string;
+  rule: string;
+  due_at: string;
+  attempts: number;
+}
+
+// Database row of per-guild settings
+export interface GuildSettingsRow {
+  guild_id: string;
+  log_channel_id: string | null;
+  manager_role_id: string | null;
+  unarchive_threads: number; // 1 to unarchive threads with tracked messages instead of suspending them
+  report_channel_id: string | null;
+  report_cadence: ReportCadence;
+  report_sent_at: string | null; // When the last scheduled report was posted, or when reports were set up
+}
+
+// How often the cleaning report is posted
+export type ReportCadence = 'daily' | 'weekly';
+
+// Database row of the commands registered globally or in a guild
+export interface CommandRegistrationRow {
+  target: string; // 'global' or a guild ID
+  command_hash: string;
+  registered_at: string;
+}
+
+// Define type for count query result
+export interface CountResult {
+  count: number;
+}
+
+export interface VoteCountRow {
+  emoji: string;
+  votes: number;
+}
+
+// Define type for database operation results - this was the main issue
+export interface DatabaseRunResult {
+  changes: number;
+  lastInsertRowid: number | bigint;
+}
+
+// Prepared statements for everything but tracked messages, which go through the tracked message store
+export function prepareStatements(db: Database.Database) {
+  return {
+    // Changing the scope restarts added_at, a rule switched to 'new' only covers messages posted from then on
+    upsertChannelRule: db.prepare(`
+      INSERT INTO channel_rules (channel_id, guild_id, scope, emoji_filter_mode, emoji_filter, exempt_roles, exempt_users, target_users, max_distinct_emojis, max_per_emoji, grace_seconds, observe)
+      VALUES (@channel_id, @guild_id, @scope, @emoji_filter_mode, @emoji_filter, @exempt_roles, @exempt_users, @target_users, @max_distinct_emojis, @max_per_emoji, @grace_seconds, @observe)
+      ON CONFLICT(channel_id) DO UPDATE SET
+        added_at = CASE WHEN scope != excluded.scope THEN CURRENT_TIMESTAMP ELSE added_at END,
+        scope = excluded.scope, emoji_filter_mode = excluded.emoji_filter_mode, emoji_filter = excluded.emoji_filter,
+        exempt_roles = excluded.exempt_roles, exempt_users = excluded.exempt_users, target_users = excluded.target_users,
+        max_distinct_emojis = excluded.max_distinct_emojis, max_per_emoji = excluded.max_per_emoji, grace_seconds = excluded.grace_seconds,
+        observe = excluded.observe
+    `),
+    getChannelRule: db.prepare("SELECT * FROM channel_rules WHERE channel_id = ?"),
+    deleteChannelRule: db.prepare("DELETE FROM channel_rules WHERE channel_id = ?"),
+    getAllChannelRules: db.prepare("SELECT * FROM channel_rules"),
+    insertWatchRule: db.prepare(`
+      INSERT INTO watch_rules (guild_id, channel_id, author_id, webhook_id, role_id, content_pattern, max_tracked, emoji_filter_mode, emoji_filter, exempt_roles, exempt_users, target_users, max_distinct_emojis, max_per_emoji, grace_seconds, observe)
+      VALUES (@guild_id, @channel_id, @author_id, @webhook_id, @role_id, @content_pattern, @max_tracked, @emoji_filter_mode, @emoji_filter, @exempt_roles, @exempt_users, @target_users, @max_distinct_emojis, @max_per_emoji, @grace_seconds, @observe)
+    `),
+    getWatchRule: db.prepare("SELECT * FROM watch_rules WHERE id = ?"),
+    getGuildWatchRules: db.prepare("SELECT * FROM watch_rules WHERE guild_id = ? ORDER BY id"),
+    getAllWatchRules: db.prepare("SELECT * FROM watch_rules ORDER BY id"),
+    deleteWatchRule: db.prepare("DELETE FROM watch_rules WHERE id = ?"),
+    getMessageVotes: db.prepare("SELECT emoji, COUNT(*) as votes FROM reaction_votes WHERE message_id = ? GROUP BY emoji"),
+    insertVote: db.prepare(`
+      INSERT OR IGNORE INTO reaction_votes (guild_id, channel_id, message_id, emoji, user_id)
+      VALUES (@guild_id, @channel_id, @message_id, @emoji, @user_id)
+    `),
+    deleteMessageVotes: db.prepare("DELETE FROM reaction_votes WHERE message_id = ?"),
+    insertAuditEntry: db.prepare(`
+      INSERT INTO reaction_audit (guild_id, channel_id, message_id, user_id, emoji, rule, removed_count)
+      VALUES (@guild_id, @channel_id, @message_id, @user_id, @emoji, @rule, @removed_count)
+    `),
+    pruneAuditEntries: db.prepare("DELETE FROM reaction_audit WHERE removed_at < ?"),
+    insertObservation: db.prepare(`
+      INSERT OR IGNORE INTO reaction_observations (guild_id, channel_id, message_id, user_id, emoji, rule)
+      VALUES (@guild_id, @channel_id, @message_id, @user_id, @emoji, @rule)
+    `),
+    deleteMessageObservations: db.prepare("DELETE FROM reaction_observations WHERE message_id = ?"),
+    deleteRuleObservations: db.prepare("DELETE FROM reaction_observations WHERE guild_id = ? AND rule = ?"),
+    setWatchRuleObserve: db.prepare("UPDATE watch_rules SET observe = ? WHERE id = ?"),
+    insertPendingRemoval: db.prepare(`
+      INSERT OR IGNORE INTO pending_removals (guild_id, channel_id, message_id, user_id, emoji, emoji_identifier, rule, due_at)
+      VALUES (@guild_id, @channel_id, @message_id, @user_id, @emoji, @emoji_identifier, @rule, @due_at)
+    `),
+    getDuePendingRemovals: db.prepare("SELECT * FROM pending_removals WHERE due_at <= ? ORDER BY due_at LIMIT 50"),
+    deletePendingRemoval: db.prepare("DELETE FROM pending_removals WHERE id = ?"),
+    deleteMessagePendingRemovals: db.prepare("DELETE FROM pending_removals WHERE message_id = ?"),
+    retryPendingRemoval: db.prepare("UPDATE pending_removals SET attempts = attempts + 1, due_at = ? WHERE id = ?"),
+    getGuildSettings: db.prepare("SELECT * FROM guild_settings WHERE guild_id = ?"),
+    setLogChannel: db.prepare(`
+      INSERT INTO guild_settings (guild_id, log_channel_id) VALUES (?, ?)
+      ON CONFLICT(guild_id) DO UPDATE SET log_channel_id = excluded.log_channel_id
+    `),
+    setUnarchiveThreads: db.prepare(`
+      INSERT INTO guild_settings (guild_id, unarchive_threads) VALUES (?, ?)
+      ON CONFLICT(guild_id) DO UPDATE SET unarchive_threads = excluded.unarchive_threads
+    `),
+    setManagerRole: db.prepare(`
+      INSERT INTO guild_settings (guild_id, manager_role_id) VALUES (?, ?)
+      ON CONFLICT(guild_id) DO UPDATE SET manager_role_id = excluded.manager_role_id
+    `),
+    setReportSchedule: db.prepare(`
+      INSERT INTO guild_settings (guild_id, report_channel_id, report_cadence, report_sent_at) VALUES (@guild_id, @report_channel_id, @report_cadence, @report_sent_at)
+      ON CONFLICT(guild_id) DO UPDATE SET report_channel_id = excluded.report_channel_id, report_cadence = excluded.report_cadence, report_sent_at = excluded.report_sent_at
+    `),
+    getScheduledReports: db.prepare("SELECT * FROM guild_settings WHERE report_channel_id IS NOT NULL"),
+    setReportSent: db.prepare("UPDATE guild_settings SET report_sent_at = ? WHERE guild_id = ?"),
+    getCommandRegistrations: db.prepare("SELECT * FROM command_registrations"),
+    setCommandRegistration: db.prepare(`
+      INSERT INTO command_registrations (target, command_hash) VALUES (?, ?)
+      ON CONFLICT(target) DO UPDATE SET command_hash = excluded.command_hash, registered_at = CURRENT_TIMESTAMP
+    `),
+    deleteCommandRegistration: db.prepare("DELETE FROM command_registrations WHERE target = ?"),
+  };
+}
+
+export type Statements = ReturnType<typeof prepareStatements>;
@@ -5,81 +5,96 @@ import {
   Partials,
   REST,
   Routes,
-  SlashCommandBuilder,
   TextChannel,
   ThreadChannel,
   Message,
-  InteractionReplyOptions,
   ChannelType,
+  Guild,
+  MessageReaction,
+  PartialMessage,
+  PartialMessageReaction,
+  SnowflakeUtil,
+  EmbedBuilder,
+  AutocompleteInteraction,
+  MessageContextMenuCommandInteraction,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ButtonInteraction,
+  Channel,
+  PermissionFlagsBits,
+  Interaction,
+  GuildMember,
 } from "discord.js";
 import Database from "better-sqlite3";
-import { existsSync, mkdirSync, } from "fs";
-import path from "path";
-
-// Function to ensure data directory and database exist
-function ensureDataDirectoryAndDatabase(dataDir: string, dbPath: string): void {
-  console.log('🔧 Checking data directory and database...');
-  
-  // Check and create data directory
-  if (!existsSync(dataDir)) {
-    console.log(`📁 Data directory doesn't exist. Creating: ${dataDir}`);
-    try {
-      mkdirSync(dataDir, { recursive: true, mode: 0o775 });
-      console.log('✅ Data directory created successfully');
-    } catch (error) {
-      console.error('❌ Failed to create data directory:', error);
-      throw new Error(`Cannot create data directory: ${dataDir}`);
-    }
-  } else {
-    console.log('✅ Data directory already exists');
-  }
-  
-  // Test write permissions by creating a test file
-  const testFile = path.join(dataDir, 'test-write-permissions.tmp');
-  try {
-    const fs = require('fs');
-    fs.writeFileSync(testFile, 'test');
-    fs.unlinkSync(testFile);
-    console.log('✅ Write permissions verified for data directory');
-  } catch (writeError) {
-    console.error('❌ No write permissions to data directory:', writeError);
-    console.error('Directory stats:', require('fs').statSync(dataDir));
-    console.error('Process UID:', process.getuid?.() || 'unknown');
-    console.error('Process GID:', process.getgid?.() || 'unknown');
-    throw new Error(`Cannot write to data directory: ${dataDir}`);
-  }
-  
-  // Check database file
-  if (!existsSync(dbPath)) {
-    console.log(`🗄️ Database file doesn't exist. It will be created: ${dbPath}`);
-    // Try to pre-create the database file with proper permissions
-    try {
-      const fs = require('fs');
-      fs.writeFileSync(dbPath, '', { mode: 0o664 });
-      console.log('✅ Database file pre-created successfully');
-    } catch (createError) {
-      console.warn('⚠️ Could not pre-create database file (SQLite will try):', createError);
-    }
-  } else {
-    console.log('✅ Database file already exists');
-    try {
-      const fs = require('fs');
-      const stats = fs.statSync(dbPath);
-      console.log('Database file stats:', {
-        size: stats.size,
-        mode: '0' + (stats.mode & parseInt('777', 8)).toString(8),
-        uid: stats.uid,
-        gid: stats.gid
-      });
-    } catch (statError) {
-      console.warn('⚠️ Could not get database file stats:', statError);
-    }
-  }
-}
-
-// Check if .data directory and database file exist
-const dataDir = path.join(process.cwd(), '.data');
-const dbPath = path.join(dataDir, 'reaction_cleaner.db');
+import { existsSync } from "fs";
+import http from "http";
+import { createHash } from "crypto";
+import {
+  dataDir,
+  dbPath,
+  ensureDataDirectoryAndDatabase,
+  runMigrations,
+  prepareStatements,
+  CleaningOptionColumns,
+  ChannelRuleRow,
+  WatchRuleRow,
+  PendingRemovalRow,
+  GuildSettingsRow,
+  ReportCadence,
+  CommandRegistrationRow,
+  CountResult,
+  DatabaseRunResult,
+} from "./database";
+import {
+  CleaningSchedule,
+  defaultCleaningSchedule,
+  CleaningOptions,
+  defaultCleaningOptions,
+  CleaningTask,
+  ChannelRule,
+  WatchRule,
+  parseMessageUrl,
+  emojiKey,
+  formatEmojiKey,
+  maxSeedReactions,
+  parseSeedReactions,
+  seedKey,
+  formatSeedReaction,
+  describeSeedReactions,
+  parseSqliteTimestamp,
+  rowToCleaningOptions,
+  cleaningOptionsToRow,
+  hasUserRules,
+  hasCaps,
+  messageLink,
+  toSqliteTimestamp,
+  shouldRemoveEmoji,
+  describeCleaningOptions,
+  rowToCleaningSchedule,
+  cleaningScheduleToRow,
+  isWithinWindow,
+  isExpired,
+  describeSchedule,
+  errorMessage,
+  rowToChannelRule,
+  maxContentPatternLength,
+  matchesContentPattern,
+  rowToWatchRule,
+  snowflakePattern,
+  reportCadenceMs,
+  bulkAuditUserId,
+  exportFormatVersion,
+  watchRuleToExport,
+  buildCleaningExport,
+  CleaningExport,
+  ExportedTrackedMessage,
+  ExportedWatchRule,
+  ImportDiff,
+  PendingImport,
+} from "./cleaning";
+import { commands, commandHandlers, ephemeralReply, CleanerRuntime } from "./commands";
+import { TrackedMessage, TrackedMessageStatus, TrackedMessageStore, createSqliteTrackedMessageStore } from "./storage";
 
 console.log(`📄 Initializing SQLite at: ${dbPath}`); // Will throw if path is invalid
 console.log('Current working directory:', process.cwd());
@@ -104,46 +119,47 @@ try {
   process.exit(1);
 }
 
-// Create table if it doesn't exist
+// Bring the schema up to date before any statements are prepared against it
 try {
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS tracked_messages (
-      message_url TEXT PRIMARY KEY,
-      channel_id TEXT NOT NULL,
-      message_id TEXT NOT NULL,
-      added_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-  console.log('✅ Database table initialized');
+  runMigrations(db);
 } catch (error) {
-  console.error('❌ Failed to create database table:', error);
+  console.error('❌ Database migration failed, no changes were applied:', error);
   process.exit(1);
 }
 
-// Define the database row type
-interface TrackedMessage {
-  message_url: string;
-  channel_id: string;
-  message_id: string;
-  added_at: string;
-}
-
-// Define type for count query result
-interface CountResult {
-  count: number;
-}
-
-// Define type for database operation results - this was the main issue
-interface DatabaseRunResult {
-  changes: number;
-  lastInsertRowid: number | bigint;
-}
 
-// Prepared statements for better performance
-const insertMessage = db.prepare("INSERT OR IGNORE INTO tracked_messages (message_url, channel_id, message_id) VALUES (?, ?, ?)");
-const deleteMessage = db.prepare("DELETE FROM tracked_messages WHERE message_url = ?");
-const getAllMessages = db.prepare("SELECT * FROM tracked_messages");
-const clearAllMessages = db.prepare("DELETE FROM tracked_messages");
+const messageStore: TrackedMessageStore = createSqliteTrackedMessageStore(db);
+const statements = prepareStatements(db);
+const {
+  upsertChannelRule,
+  getChannelRule,
+  deleteChannelRule,
+  getAllChannelRules,
+  insertWatchRule,
+  getWatchRule,
+  getGuildWatchRules,
+  getAllWatchRules,
+  deleteWatchRule,
+  insertAuditEntry,
+  insertVote,
+  deleteMessageVotes,
+  pruneAuditEntries,
+  insertObservation,
+  deleteMessageObservations,
+  deleteRuleObservations,
+  setWatchRuleObserve,
+  insertPendingRemoval,
+  getDuePendingRemovals,
+  deletePendingRemoval,
+  deleteMessagePendingRemovals,
+  retryPendingRemoval,
+  getGuildSettings,
+  getScheduledReports,
+  setReportSent,
+  getCommandRegistrations,
+  setCommandRegistration,
+  deleteCommandRegistration,
+} = statements;
 
 // Test database connection and log initial state
 console.log("🧪 Testing database connection...");
@@ -159,44 +175,615 @@ const client = new Client({
   intents: [
     GatewayIntentBits.Guilds,
     GatewayIntentBits.GuildMessages,
+    GatewayIntentBits.GuildMessageReactions,
     GatewayIntentBits.MessageContent,
   ],
   partials: [Partials.Message, Partials.Channel, Partials.Reaction],
 });
 
-// Store cleaning intervals by message URL
-const cleaningTasks: Record<string, NodeJS.Timeout> = {};
+// Store cleaning tasks by message URL, plus a lookup from message ID for reaction events
+const cleaningTasks: Record<string, CleaningTask> = {};
+const trackedMessageIds: Record<string, string> = {};
+
+// Store watch rules by their ID
+const watchRules: Record<number, WatchRule> = {};
+
+// Store channel rules by the ID of the channel, thread, forum or category they cover
+const channelRules: Record<string, ChannelRule> = {};
+
+// Where a removal happened and which rule caused it, for the audit log
+interface RemovalContext {
+  guildId: string | null; // Only null for DMs, which are never cleaned
+  channelId: string;
+  messageId: string;
+  rule: string; // 'message' or 'channel:<id>'
+}
+
+// A removal waiting to be summarized in a guild's log channel
+interface AuditLogEntry {
+  context: RemovalContext;
+  userId: string; // bulkAuditUserId when a whole emoji was removed
+  emoji: string;
+  count: number;
+}
+
+// Removals waiting to be posted, by guild ID, flushed every minute
+const pendingAuditLog: Record<string, AuditLogEntry[]> = {};
+const auditLogFlushMs = 60_000;
+let auditLogFlushInterval: NodeJS.Timeout | undefined;
+
+// Counters exposed on /metrics since the bot started
+let reactionsRemovedTotal = 0;
+const restFailuresTotal: Record<number, number> = {};
+
+// Port of the optional health and metrics server (0 = disabled)
+const httpPort = Number(process.env.HTTP_PORT ?? 0);
+let httpServer: http.Server | undefined;
+
+// Consecutive failures of a tracked message and the pending retry, by message URL
+interface FailureState {
+  consecutiveFailures: number;
+  backoffUntil: number; // Unix ms, reaction events are left to the retry until then
+  retryTimer?: NodeJS.Timeout;
+}
+const failureStates: Record<string, FailureState> = {};
+
+// Consecutive failures before a tracked message is marked as errored and no longer retried
+const failureThreshold = Number(process.env.FAILURE_THRESHOLD ?? 5);
+const baseBackoffMs = 5_000;
+const maxBackoffMs = 15 * 60_000;
+
+// How often queued grace period removals are checked, and how often each is tried before giving up
+const pendingRemovalCheckMs = 5_000;
+const pendingRemovalMaxAttempts = 5;
+let pendingRemovalInterval: NodeJS.Timeout | undefined;
+let processingPendingRemovals = false;
+
+// How often expiry times and active windows are checked
+const scheduleCheckMs = 30_000;
+let scheduleCheckInterval: NodeJS.Timeout | undefined;
+
+// How often scheduled cleaning reports are checked
+const reportCheckMs = 5 * 60_000;
+let reportCheckInterval: NodeJS.Timeout | undefined;
+
+// Days removed reactions are kept in the audit log, checked every hour (0 = kept forever)
+const auditRetentionDays = Number(process.env.AUDIT_RETENTION_DAYS ?? 90);
+const auditPruneMs = 60 * 60_000;
+let auditPruneInterval: NodeJS.Timeout | undefined;
+
+// Optional periodic sweep to catch reactions added while the gateway was disconnected (0 = disabled)
+const sweepIntervalSeconds = Number(process.env.SWEEP_INTERVAL_SECONDS ?? 0);
+let sweepInterval: NodeJS.Timeout | undefined;
+
+// Whether a reaction that was just added goes over the caps. The newest reaction is the one that gets trimmed.
+async function exceedsCaps(options: CleaningOptions, reaction: MessageReaction | PartialMessageReaction): Promise<boolean> {
+  const message = reaction.message.partial ? await reaction.message.fetch() : reaction.message;
+  const count = message.reactions.cache.get(reaction.emoji.id ?? reaction.emoji.name ?? "")?.count ?? reaction.count ?? 1;
+
+  if (options.maxPerEmoji !== null && count > options.maxPerEmoji) return true;
+  // Only a brand new emoji adds to the number of different emojis
+  if (options.maxDistinctEmojis !== null && count === 1 && message.reactions.cache.size > options.maxDistinctEmojis) return true;
+  return false;
+}
+
+// Whether a reaction from this user should be removed under the given options
+async function shouldRemoveUserReaction(options: CleaningOptions, guild: Guild | null, userId: string): Promise<boolean> {
+  if (options.targetUsers.length > 0 && !options.targetUsers.includes(userId)) return false;
+  if (options.exemptUsers.includes(userId)) return false;
+
+  if (options.exemptRoles.length > 0 && guild) {
+    try {
+      const member = await guild.members.fetch(userId);
+      if (options.exemptRoles.some((roleId) => member.roles.cache.has(roleId))) return false;
+    } catch {
+      // The user has left the guild, so they can't hold an exempt role
+    }
+  }
+
+  return true;
+}
+
+// The users whose reactions the options don't protect
+async function selectUserReactions(options: CleaningOptions, guild: Guild | null, userIds: string[]): Promise<string[]> {
+  const selected: string[] = [];
+
+  for (const userId of userIds) {
+    if (await shouldRemoveUserReaction(options, guild, userId)) selected.push(userId);
+  }
+
+  return selected;
+}
+
+// Fetch the IDs of everyone who reacted with this reaction
+async function fetchReactionUserIds(reaction: MessageReaction): Promise<string[]> {
+  const userIds: string[] = [];
+  let after: string | undefined;
+
+  // Reaction users are paginated 100 at a time
+  while (true) {
+    const users = await reaction.users.fetch({ limit: 100, after });
+    userIds.push(...users.keys());
+
+    if (users.size < 100) break;
+    after = users.lastKey();
+  }
+
+  return userIds;
+}
+
+// Remove the unwanted users' reactions for one emoji and record them, returns how many were removed
+async function cleanReaction(options: CleaningOptions, guild: Guild | null, reaction: MessageReaction, context: RemovalContext): Promise<number> {
+  // Everyone goes when no user rule applies and the emoji isn't a seed, so the reactors aren't listed and the
+  // whole emoji is removed in one request and audited as one entry. Seeds need each voter recorded.
+  if (!hasUserRules(options) && !reaction.me && !isSeedEmoji(context, emojiKey(reaction.emoji)) && !options.observe && !options.graceSeconds) {
+    const count = reaction.count ?? 0;
+    if (count === 0) return 0;
+    await reaction.remove();
+    recordBulkRemoval(context, emojiKey(reaction.emoji), count);
+    return count;
+  }
+
+  // Fetch the reactors first so the audit log knows who was removed
+  const userIds = await fetchReactionUserIds(reaction);
+  // The bot's own reactions are seeds and are never cleaned
+  const reactorIds = userIds.filter((userId) => userId !== client.user?.id);
+  const selected = hasUserRules(options) ? await selectUserReactions(options, guild, reactorIds) : reactorIds;
+  return removeReactions(options, reaction, selected, context);
+}
+
+// Remove these users' reactions for one emoji, or queue them when the options have a grace period.
+// Returns how many were removed right away.
+async function removeReactions(options: CleaningOptions, reaction: MessageReaction, userIds: string[], context: RemovalContext): Promise<number> {
+  if (userIds.length === 0) return 0;
+
+  if (options.observe) {
+    recordObservations(context, emojiKey(reaction.emoji), userIds);
+    return 0;
+  }
+
+  if (options.graceSeconds) {
+    schedulePendingRemovals(context, reaction.emoji, userIds, options.graceSeconds);
+    return 0;
+  }
+
+  // One by one, so someone reacting after the fetch isn't removed without being audited
+  for (const userId of userIds) {
+    await reaction.users.remove(userId);
+  }
+
+  recordRemovals(context, emojiKey(reaction.emoji), userIds);
+  return userIds.length;
+}
+
+// Record reactions that would have been removed by a rule in observe mode
+function recordObservations(context: RemovalContext, emoji: string, userIds: string[]): void {
+  if (!context.guildId) return;
+  const guildId = context.guildId;
 
-// Enhanced function to parse Discord message URLs (supports threads and forum posts)
-function parseMessageUrl(messageUrl: string): { channelId: string; messageId: string } | null {
   try {
-    // Discord message URL patterns:
-    // Regular channel: https://discord.com/channels/GUILD_ID/CHANNEL_ID/MESSAGE_ID
-    // Thread: https://discord.com/channels/GUILD_ID/CHANNEL_ID/MESSAGE_ID (same format)
-    // The channel_id in threads is the thread ID, not the parent channel ID
-    
-    const url = new URL(messageUrl);
-    const pathParts = url.pathname.split('/').filter(part => part.length > 0);
-    
-    // Expected format: ['channels', 'GUILD_ID', 'CHANNEL_ID', 'MESSAGE_ID']
-    if (pathParts.length >= 4 && pathParts[0] === 'channels') {
-      const channelId = pathParts[2]; // This will be thread ID for threads, channel ID for regular channels
-      const messageId = pathParts[3];
-      
-      if (channelId && messageId) {
-        return { channelId, messageId };
+    const insertAll = db.transaction(() => {
+      for (const userId of userIds) {
+        insertObservation.run({
+          guild_id: guildId,
+          channel_id: context.channelId,
+          message_id: context.messageId,
+          user_id: userId,
+          emoji,
+          rule: context.rule,
+        });
+      }
+    });
+    insertAll();
+  } catch (dbError) {
+    console.error(`❌ DB Observation insert failed for message ${context.messageId}:`, dbError);
+  }
+}
+
+// Queue reactions to be removed once they have been on the message for the grace period.
+// Reactions that are already queued keep their original due time.
+function schedulePendingRemovals(context: RemovalContext, emoji: { id: string | null; name: string | null; identifier: string }, userIds: string[], graceSeconds: number): void {
+  if (!context.guildId) return;
+  const guildId = context.guildId;
+  const dueAt = toSqliteTimestamp(new Date(Date.now() + graceSeconds * 1000));
+
+  try {
+    const insertAll = db.transaction(() => {
+      for (const userId of userIds) {
+        insertPendingRemoval.run({
+          guild_id: guildId,
+          channel_id: context.channelId,
+          message_id: context.messageId,
+          user_id: userId,
+          emoji: emojiKey(emoji),
+          emoji_identifier: emoji.identifier,
+          rule: context.rule,
+          due_at: dueAt,
+        });
       }
+    });
+    insertAll();
+  } catch (dbError) {
+    console.error(`❌ DB Pending removal insert failed for message ${context.messageId}:`, dbError);
+  }
+}
+
+// Whether the rule that queued a pending removal still applies to its message
+function isPendingRuleActive(row: PendingRemovalRow): boolean {
+  if (row.rule === 'message') {
+    const messageUrl = trackedMessageIds[row.message_id];
+    return messageUrl !== undefined && !cleaningTasks[messageUrl].dormant;
+  }
+  return channelRules[row.rule.slice('channel:'.length)] !== undefined;
+}
+
+// Remove queued reactions whose grace period is over
+async function processPendingRemovals(): Promise<void> {
+  const due = getDuePendingRemovals.all(toSqliteTimestamp(new Date())) as PendingRemovalRow[];
+
+  for (const row of due) {
+    // The message was disabled, paused or left its window while the reaction was waiting
+    if (!isPendingRuleActive(row)) {
+      deletePendingRemoval.run(row.id);
+      continue;
     }
-    
-    return null;
-  } catch (error) {
-    console.error('Error parsing message URL:', error);
-    return null;
+
+    try {
+      // Removing a reaction the user already took back is a no-op
+      await client.rest.delete(Routes.channelMessageUserReaction(row.channel_id, row.message_id, row.emoji_identifier, row.user_id));
+      deletePendingRemoval.run(row.id);
+      recordRemovals({ guildId: row.guild_id, channelId: row.channel_id, messageId: row.message_id, rule: row.rule }, row.emoji, [row.user_id]);
+    } catch (error) {
+      console.error(`Error removing pending reaction on message ${row.message_id}:`, error);
+      // Give up on reactions that keep failing, e.g. because the message is gone
+      if (row.attempts + 1 >= pendingRemovalMaxAttempts) {
+        deletePendingRemoval.run(row.id);
+      } else {
+        // Back off so a failing reaction isn't retried on every check
+        const delay = Math.min(baseBackoffMs * 2 ** row.attempts, maxBackoffMs);
+        retryPendingRemoval.run(toSqliteTimestamp(new Date(Date.now() + delay)), row.id);
+      }
+    }
+  }
+}
+
+// Start removing queued reactions once their grace period is over
+function startPendingRemovals(): void {
+  if (pendingRemovalInterval) return;
+
+  pendingRemovalInterval = setInterval(() => {
+    // A slow batch must not be picked up twice by the next tick
+    if (processingPendingRemovals) return;
+    processingPendingRemovals = true;
+    processPendingRemovals()
+      .catch((error) => console.error("❌ Pending removal processing failed:", error))
+      .finally(() => { processingPendingRemovals = false; });
+  }, pendingRemovalCheckMs);
+}
+
+// Store removals in the audit log and queue them for the guild's log channel
+function recordRemovals(context: RemovalContext, emoji: string, userIds: string[]): void {
+  insertAuditEntries(context, userIds.map((userId) => ({ context, userId, emoji, count: 1 })));
+}
+
+// Store the removal of a whole emoji as one audit entry, without knowing who reacted
+function recordBulkRemoval(context: RemovalContext, emoji: string, count: number): void {
+  insertAuditEntries(context, [{ context, userId: bulkAuditUserId, emoji, count }]);
+}
+
+// Whether an emoji is a seed reaction of the tracked message, removed reactions on those are votes
+function isSeedEmoji(context: RemovalContext, emoji: string): boolean {
+  if (context.rule !== 'message') return false;
+  const messageUrl = trackedMessageIds[context.messageId];
+  return messageUrl !== undefined && cleaningTasks[messageUrl].seedReactions.some((seed) => seedKey(seed) === emoji);
+}
+
+function insertAuditEntries(context: RemovalContext, entries: AuditLogEntry[]): void {
+  reactionsRemovedTotal += entries.reduce((total, entry) => total + entry.count, 0);
+  if (!context.guildId || entries.length === 0) return;
+  const guildId = context.guildId;
+
+  try {
+    const insertAll = db.transaction(() => {
+      for (const entry of entries) {
+        insertAuditEntry.run({
+          guild_id: guildId,
+          channel_id: context.channelId,
+          message_id: context.messageId,
+          user_id: entry.userId,
+          emoji: entry.emoji,
+          rule: context.rule,
+          removed_count: entry.count,
+        });
+        if (entry.userId !== bulkAuditUserId && isSeedEmoji(context, entry.emoji)) {
+          insertVote.run({ guild_id: guildId, channel_id: context.channelId, message_id: context.messageId, emoji: entry.emoji, user_id: entry.userId });
+        }
+      }
+    });
+    insertAll();
+  } catch (dbError) {
+    console.error(`❌ DB Audit insert failed for message ${context.messageId}:`, dbError);
+  }
+
+  const settings = getGuildSettings.get(guildId) as GuildSettingsRow | undefined;
+  if (settings?.log_channel_id) {
+    pendingAuditLog[guildId] ??= [];
+    pendingAuditLog[guildId].push(...entries);
+  }
+}
+
+// Post a summary of queued removals to every guild's log channel
+async function flushAuditLog(): Promise<void> {
+  for (const guildId of Object.keys(pendingAuditLog)) {
+    const entries = pendingAuditLog[guildId];
+    delete pendingAuditLog[guildId];
+
+    const settings = getGuildSettings.get(guildId) as GuildSettingsRow | undefined;
+    if (!settings?.log_channel_id || entries.length === 0) continue;
+
+    // Group by message so a busy message becomes one line
+    const byMessage: Record<string, { emojis: Record<string, number>; users: Set<string> }> = {};
+    for (const entry of entries) {
+      const link = messageLink(guildId, entry.context.channelId, entry.context.messageId);
+      byMessage[link] ??= { emojis: {}, users: new Set() };
+      byMessage[link].emojis[entry.emoji] = (byMessage[link].emojis[entry.emoji] ?? 0) + entry.count;
+      byMessage[link].users.add(entry.userId);
+    }
+
+    const lines = Object.entries(byMessage).map(([link, summary]) => {
+      const emojis = Object.entries(summary.emojis).map(([emoji, count]) => `${formatEmojiKey(emoji)}×${count}`).join(" ");
+      const users = [...summary.users];
+      const mentions = users.slice(0, 5).map((id) => id === bulkAuditUserId ? "everyone" : `<@${id}>`).join(" ") + (users.length > 5 ? ` +${users.length - 5} more` : "");
+      return `• ${link}\n  ${emojis} by ${mentions}`;
+    });
+
+    // Stay well below the embed description limit
+    let description = "";
+    for (const [index, line] of lines.entries()) {
+      if (description.length + line.length > 3800) {
+        description += `\n…and ${lines.length - index} more message(s)`;
+        break;
+      }
+      description += `${line}\n`;
+    }
+
+    try {
+      const channel = await client.channels.fetch(settings.log_channel_id);
+      if (!channel?.isSendable()) throw new Error("Log channel is not a text channel");
+
+      const embed = new EmbedBuilder()
+        .setTitle(`🧹 Removed ${entries.reduce((total, entry) => total + entry.count, 0)} reaction(s)`)
+        .setDescription(description)
+        .setTimestamp();
+      await channel.send({ embeds: [embed], allowedMentions: { parse: [] } });
+    } catch (error) {
+      console.error(`❌ Failed to post audit log for guild ${guildId}:`, error);
+    }
+  }
+}
+
+// Start posting queued removals to log channels
+function startAuditLogFlush(): void {
+  if (auditLogFlushInterval) return;
+
+  auditLogFlushInterval = setInterval(() => {
+    flushAuditLog().catch((error) => console.error("❌ Audit log flush failed:", error));
+  }, auditLogFlushMs);
+}
+
+// Summarize a guild's cleaning activity between two times, with the messages that currently need attention
+function buildCleaningReport(guildId: string, since: Date, until: Date, cadence: ReportCadence): EmbedBuilder {
+  const params = { guild_id: guildId, since: toSqliteTimestamp(since), until: toSqliteTimestamp(until) };
+  const where = "guild_id = @guild_id AND removed_at >= @since AND removed_at < @until";
+
+  // Whole emojis removed at once count every reaction they removed but have no user
+  const totals = db.prepare(`SELECT COALESCE(SUM(removed_count), 0) AS count, COUNT(DISTINCT NULLIF(user_id, '${bulkAuditUserId}')) AS users FROM reaction_audit WHERE ${where}`)
+    .get(params) as { count: number; users: number };
+  const byMessage = db.prepare(`SELECT channel_id, message_id, SUM(removed_count) AS count FROM reaction_audit WHERE ${where} GROUP BY message_id ORDER BY count DESC LIMIT 5`)
+    .all(params) as { channel_id: string; message_id: string; count: number }[];
+  const byUser = db.prepare(`SELECT user_id, COUNT(*) AS count FROM reaction_audit WHERE ${where} AND user_id != '${bulkAuditUserId}' GROUP BY user_id ORDER BY count DESC LIMIT 5`)
+    .all(params) as { user_id: string; count: number }[];
+  const byEmoji = db.prepare(`SELECT emoji, SUM(removed_count) AS count FROM reaction_audit WHERE ${where} GROUP BY emoji ORDER BY count DESC LIMIT 5`)
+    .all(params) as { emoji: string; count: number }[];
+  const observed = db.prepare("SELECT COUNT(*) AS count FROM reaction_observations WHERE guild_id = @guild_id AND observed_at >= @since AND observed_at < @until")
+    .get(params) as CountResult;
+
+  const range = `<t:${Math.floor(since.getTime() / 1000)}:f> and <t:${Math.floor(until.getTime() / 1000)}:f>`;
+  let description = totals.count
+    ? `**${totals.count}** reaction(s)${totals.users ? ` from **${totals.users}** user(s)` : ""} were removed between ${range}.`
+    : `No reactions were removed between ${range}.`;
+  if (observed.count) description += `\n**${observed.count}** more would have been removed by rules in observe mode.`;
+
+  const embed = new EmbedBuilder()
+    .setTitle(`📊 ${cadence === 'weekly' ? "Weekly" : "Daily"} cleaning report`)
+    .setColor(0x5865f2)
+    .setDescription(description)
+    .setTimestamp(until);
+
+  if (totals.count) {
+    embed.addFields(
+      { name: "Top messages", value: byMessage.map((row) => `${messageLink(guildId, row.channel_id, row.message_id)} ×${row.count}`).join("\n") },
+      { name: "Top users", value: byUser.map((row) => `<@${row.user_id}> ×${row.count}`).join("\n") || "Only whole emojis were removed", inline: true },
+      { name: "Top emojis", value: byEmoji.map((row) => `${formatEmojiKey(row.emoji)} ×${row.count}`).join("\n"), inline: true },
+    );
+  }
+
+  // Messages a moderator has to look at, whenever they stopped
+  const guildRows = messageStore.getGuild(guildId);
+  for (const [name, status] of [["Errored", 'errored'], ["Expired", 'expired']] as const) {
+    const rows = guildRows.filter((row) => row.status === status);
+    if (rows.length === 0) continue;
+
+    const lines = rows.slice(0, 5).map((row) => status === 'errored' && row.last_error
+      ? `• ${row.message_url}\n  ${row.last_error.slice(0, 80)}`
+      : `• ${row.message_url}`);
+    if (rows.length > 5) lines.push(`…and ${rows.length - 5} more`);
+    embed.addFields({ name: `${name} (${rows.length})`, value: lines.join("\n") });
+  }
+
+  return embed;
+}
+
+// Post a cleaning report to a channel
+async function sendCleaningReport(channelId: string, embed: EmbedBuilder): Promise<void> {
+  const channel = await client.channels.fetch(channelId);
+  if (!channel?.isSendable()) throw new Error("Report channel is not a text channel");
+  await channel.send({ embeds: [embed], allowedMentions: { parse: [] } });
+}
+
+// Post the reports that are due, each covering the time since the previous one
+async function postDueReports(): Promise<void> {
+  const now = new Date();
+  for (const settings of getScheduledReports.all() as GuildSettingsRow[]) {
+    const since = settings.report_sent_at ? parseSqliteTimestamp(settings.report_sent_at) : now;
+    if (since.getTime() + reportCadenceMs[settings.report_cadence] > now.getTime()) continue;
+
+    // Moving on even when posting fails, so a deleted channel isn't retried every few minutes
+    setReportSent.run(toSqliteTimestamp(now), settings.guild_id);
+    try {
+      await sendCleaningReport(settings.report_channel_id!, buildCleaningReport(settings.guild_id, since, now, settings.report_cadence));
+      console.log(`📊 Posted ${settings.report_cadence} cleaning report for guild ${settings.guild_id}`);
+    } catch (error) {
+      console.error(`❌ Failed to post cleaning report for guild ${settings.guild_id}:`, error);
+    }
+  }
+}
+
+// Start posting scheduled cleaning reports
+function startReportSchedule(): void {
+  if (reportCheckInterval) return;
+
+  reportCheckInterval = setInterval(() => {
+    postDueReports().catch((error) => console.error("❌ Report check failed:", error));
+  }, reportCheckMs);
+}
+
+// Delete audit entries older than the retention window
+function pruneAuditLog(): void {
+  const cutoff = new Date(Date.now() - auditRetentionDays * 86_400_000);
+  const { changes } = pruneAuditEntries.run(toSqliteTimestamp(cutoff));
+  if (changes) console.log(`🗑️ Pruned ${changes} audit entries older than ${auditRetentionDays} day(s)`);
+}
+
+// Start pruning the audit log, right away and then every hour
+function startAuditPrune(): void {
+  if (auditPruneInterval || auditRetentionDays <= 0) return;
+
+  const prune = () => {
+    try {
+      pruneAuditLog();
+    } catch (error) {
+      console.error("❌ Audit log pruning failed:", error);
+    }
+  };
+  prune();
+  auditPruneInterval = setInterval(prune, auditPruneMs);
+}
+
+// Stop cleaning a tracked message whose expiry time has passed
+function expireCleaning(row: TrackedMessage): void {
+  stopCleaning(row.message_url);
+  messageStore.setStatus(row.message_url, 'expired');
+  console.log(`⌛ Cleaning expired for: ${row.message_url}`);
+}
+
+// Expire messages past their deadline and wake up or put to sleep tasks whose window opened or closed
+function checkSchedules(): void {
+  for (const row of messageStore.getExpired(toSqliteTimestamp(new Date()))) {
+    expireCleaning(row);
+  }
+
+  const now = new Date();
+  for (const task of Object.values(cleaningTasks)) {
+    const inWindow = isWithinWindow(task.schedule, now);
+    if (inWindow && task.dormant) {
+      task.dormant = false;
+      console.log(`🌅 Active window opened for: ${task.messageUrl}`);
+      // Clear what was added while the window was closed
+      void sweepReactions(task);
+    } else if (!inWindow && !task.dormant) {
+      task.dormant = true;
+      console.log(`🌙 Active window closed for: ${task.messageUrl}`);
+    }
+  }
+}
+
+// Start checking expiry times and active windows
+function startScheduleChecks(): void {
+  if (scheduleCheckInterval) return;
+
+  scheduleCheckInterval = setInterval(() => {
+    try {
+      checkSchedules();
+    } catch (error) {
+      console.error("❌ Schedule check failed:", error);
+    }
+  }, scheduleCheckMs);
+}
+
+// Count a failure of a tracked message and either retry with exponential backoff or mark it as errored
+function handleCleaningFailure(messageUrl: string, error: unknown, retry: () => Promise<void>): void {
+  const state = failureStates[messageUrl] ??= { consecutiveFailures: 0, backoffUntil: 0 };
+  state.consecutiveFailures++;
+  if (state.retryTimer) clearTimeout(state.retryTimer);
+
+  const reason = errorMessage(error);
+
+  if (state.consecutiveFailures >= failureThreshold) {
+    stopCleaning(messageUrl);
+    try {
+      messageStore.setErrored(messageUrl, state.consecutiveFailures, reason);
+    } catch (dbError) {
+      console.error(`❌ DB Status update failed for ${messageUrl}:`, dbError);
+    }
+    console.log(`⛔ Suspended cleaning for ${messageUrl} after ${state.consecutiveFailures} consecutive failures: ${reason}`);
+    return;
   }
+
+  // Rate limits are waited out by discord.js before a request fails, so every failure backs off exponentially
+  const delay = Math.min(baseBackoffMs * 2 ** (state.consecutiveFailures - 1), maxBackoffMs);
+  state.backoffUntil = Date.now() + delay;
+  state.retryTimer = setTimeout(() => {
+    state.retryTimer = undefined;
+    retry().catch((retryError) => console.error(`❌ Retry failed for ${messageUrl}:`, retryError));
+  }, delay);
+
+  try {
+    messageStore.setFailure(messageUrl, state.consecutiveFailures, reason);
+  } catch (dbError) {
+    console.error(`❌ DB Failure update failed for ${messageUrl}:`, dbError);
+  }
+  console.log(`⚠️ Cleaning failed for ${messageUrl} (${state.consecutiveFailures}/${failureThreshold}), retrying in ${Math.round(delay / 1000)}s: ${reason}`);
+}
+
+// Reset the failure count of a tracked message after it was cleaned successfully
+function recordCleaningSuccess(messageUrl: string): void {
+  if (!failureStates[messageUrl]) return;
+
+  clearFailureState(messageUrl);
+  try {
+    messageStore.setFailure(messageUrl, 0, null);
+  } catch (dbError) {
+    console.error(`❌ DB Failure reset failed for ${messageUrl}:`, dbError);
+  }
+}
+
+// Forget the failures of a tracked message and cancel its pending retry
+function clearFailureState(messageUrl: string): void {
+  const state = failureStates[messageUrl];
+  if (!state) return;
+
+  if (state.retryTimer) clearTimeout(state.retryTimer);
+  delete failureStates[messageUrl];
+}
+
+// Whether a tracked message is waiting for a retry, in which case reaction events are left to it
+function isBackingOff(messageUrl: string): boolean {
+  return (failureStates[messageUrl]?.backoffUntil ?? 0) > Date.now();
 }
 
 // Enhanced function to start cleaning a message (supports all channel types)
-async function startCleaning(messageUrl: string, channelId: string, messageId: string): Promise<{ success: boolean; error?: string; message?: Message }> {
+async function startCleaning(messageUrl: string, channelId: string, messageId: string, options: CleaningOptions = defaultCleaningOptions, schedule: CleaningSchedule = defaultCleaningSchedule, seedReactions: string[] = []): Promise<{ success: boolean; error?: string; message?: Message }> {
   try {
     // Fetch the channel - this works for regular channels, threads, and forum posts
     const channel = await client.channels.fetch(channelId);
@@ -205,6 +792,11 @@ async function startCleaning(messageUrl: string, channelId: string, messageId: s
       return { success: false, error: "Channel not found" };
     }
 
+    // The URL's server segment is free text, the channel has to really be in that server
+    if (channel.isDMBased() || channel.guildId !== parseMessageUrl(messageUrl)?.guildId) {
+      return { success: false, error: "The channel is not in the server of the message URL" };
+    }
+
     // Check if it's a supported channel type
     let targetChannel: TextChannel | ThreadChannel;
     
@@ -237,17 +829,13 @@ async function startCleaning(messageUrl: string, channelId: string, messageId: s
       return { success: false, error: "Already cleaning this message" };
     }
 
-    // Start the cleaning interval
-    cleaningTasks[messageUrl] = setInterval(async () => {
-      try {
-        await message.reactions.removeAll();
-        console.log(`🧹 Cleaned reactions for message: ${messageUrl}`);
-      } catch (cleanError) {
-        console.error(`Error clearing reactions for ${messageUrl}:`, cleanError);
-        // If we consistently fail to clean reactions, we might want to stop the task
-        // For now, we'll just log the error and continue trying
-      }
-    }, 5000);
+    // Register the task so reaction events for this message get cleaned
+    const task: CleaningTask = { messageUrl, channelId, messageId, message, options, schedule, dormant: !isWithinWindow(schedule), seedReactions };
+    cleaningTasks[messageUrl] = task;
+    trackedMessageIds[messageId] = messageUrl;
+
+    // Clear anything that was added before we started listening, without holding up the caller
+    if (!task.dormant) void sweepReactions(task);
 
     console.log(`✅ Started cleaning reactions for: ${messageUrl} (Channel: ${targetChannel.name || 'Unknown'}, Type: ${targetChannel.type})`);
     return { success: true, message };
@@ -258,325 +846,1745 @@ async function startCleaning(messageUrl: string, channelId: string, messageId: s
   }
 }
 
-// Function to stop cleaning a message
-function stopCleaning(messageUrl: string): boolean {
-  if (cleaningTasks[messageUrl]) {
-    clearInterval(cleaningTasks[messageUrl]);
-    delete cleaningTasks[messageUrl];
-    console.log(`🛑 Stopped cleaning reactions for: ${messageUrl}`);
-    return true;
+// Remove every unwanted reaction currently on a tracked message
+async function sweepReactions(task: CleaningTask): Promise<void> {
+  try {
+    // Refetch so we see reactions added while no events were being received
+    const message = await task.message.fetch(true);
+    task.message = message;
+
+    const context: RemovalContext = { guildId: message.guildId, channelId: message.channelId, messageId: message.id, rule: 'message' };
+    const removed = hasCaps(task.options)
+      ? await sweepCappedReactions(task.options, message, context)
+      : await sweepUnwantedReactions(task.options, message, context);
+    if (removed > 0) {
+      console.log(`🧹 Swept ${removed} reaction(s) for message: ${task.messageUrl}`);
+    }
+    if (task.seedReactions.length > 0) await restoreSeedReactions(task);
+
+    recordCleaningSuccess(task.messageUrl);
+  } catch (sweepError) {
+    console.error(`Error sweeping reactions for ${task.messageUrl}:`, sweepError);
+    // The task may have been stopped while the sweep was running
+    if (cleaningTasks[task.messageUrl] === task) {
+      handleCleaningFailure(task.messageUrl, sweepError, () => sweepReactions(task));
+    }
   }
-  return false;
 }
 
-// Function to restore cleaning tasks from database on startup
-async function restoreCleaningTasks() {
-  const result = getAllMessages.all() as TrackedMessage[];
-  
-  console.log(`🔄 Restoring ${result.length} cleaning tasks from database...`);
-  
-  for (const row of result) {
-    const startResult = await startCleaning(row.message_url, row.channel_id, row.message_id);
-    if (startResult.success) {
-      console.log(`✅ Restored cleaning for: ${row.message_url}`);
-    } else {
-      console.log(`❌ Failed to restore cleaning for: ${row.message_url} - ${startResult.error}`);
-      // Remove from database if message/channel no longer exists
-      deleteMessage.run(row.message_url);
-    }
-  }
-}
-
-const commands = [
-  new SlashCommandBuilder()
-    .setName("enable-reaction-cleaning")
-    .setDescription("Start continuously removing reactions from messages (supports threads and forum posts).")
-    .addStringOption((option) =>
-      option
-        .setName("message_url")
-        .setDescription("Discord message URLs (space/comma separated) - works with regular channels, threads, and forum posts")
-        .setRequired(true)
-    )
-    .toJSON(),
-
-  new SlashCommandBuilder()
-    .setName("disable-reaction-cleaning")
-    .setDescription("Stop cleaning reactions from messages (supports threads and forum posts).")
-    .addStringOption((option) =>
-      option
-        .setName("message_url")
-        .setDescription("Discord message URLs (space/comma separated) - works with regular channels, threads, and forum posts")
-        .setRequired(true)
-    )
-    .toJSON(),
-
-  new SlashCommandBuilder()
-    .setName("disable-all-cleaning")
-    .setDescription("Stop cleaning reactions from ALL tracked messages.")
-    .toJSON(),
-
-  new SlashCommandBuilder()
-    .setName("list-reaction-cleaning")
-    .setDescription("Show all messages currently being cleaned.")
-    .toJSON(),
-
-  new SlashCommandBuilder()
-    .setName("ping")
-    .setDescription("Check if the bot is responsive.")
-    .toJSON(),
-
-  new SlashCommandBuilder()
-    .setName("source-code")
-    .setDescription("Get the source code repository link for this bot.")
-    .addBooleanOption((option) =>
-      option
-        .setName("ephemeral")
-        .setDescription("Whether to show the response only to you (default: true)")
-        .setRequired(false)
-    )
-    .toJSON(),
-];
+// Messages the bot is currently reacting on, so the removal events it causes don't start another sweep
+const seedingMessageIds = new Set<string>();
 
-// Register slash commands function
-async function registerCommands() {
-  const rest = new REST({ version: "10" }).setToken(process.env.DISCORD_TOKEN as string);
-  const guildIds = (process.env.GUILD_IDS as string).split(",").map((id) => id.trim());
-  const clientId = process.env.CLIENT_ID as string;
+// React with the seed reactions from the bot's account. Discord lists reactions in the order they were
+// first added, so the bot's reactions after the first missing seed are taken off and added again.
+async function restoreSeedReactions(task: CleaningTask): Promise<void> {
+  const message = task.message;
+  const ownReaction = (seed: string) => message.reactions.cache.find((reaction) => reaction.me && emojiKey(reaction.emoji) === seedKey(seed));
 
+  const firstMissing = task.seedReactions.findIndex((seed) => !ownReaction(seed));
+  if (firstMissing === -1) return;
+
+  const seeds = task.seedReactions.slice(firstMissing);
+  seedingMessageIds.add(message.id);
   try {
-    console.log("🔄 Started refreshing application (/) commands.");
-    
-    for (const guildId of guildIds) {
-      const data = await rest.put(
-        Routes.applicationGuildCommands(clientId, guildId),
-        { body: commands }
-      ) as unknown[];
-      
-      console.log(`✅ Successfully reloaded ${data.length} application (/) commands for guild ${guildId}.`);
-      console.log("📋 Registered commands:", (data as Array<{ name: string }>).map(cmd => cmd.name));
+    for (const seed of seeds) {
+      await ownReaction(seed)?.users.remove(client.user!.id);
     }
+    for (const seed of seeds) {
+      await message.react(seed);
+    }
+    console.log(`🌱 Restored ${seeds.length} seed reaction(s) on: ${task.messageUrl}`);
   } catch (error) {
-    console.error("❌ Error registering commands:", error);
+    // Missing seeds don't stop the cleaning, the next sweep tries again
+    console.error(`Error restoring seed reactions for ${task.messageUrl}:`, error);
+  } finally {
+    seedingMessageIds.delete(message.id);
   }
 }
 
-client.once("ready", async () => {
-  console.log(`🤖 Logged in as ${client.user?.tag}`);
-  
-  // Register commands after bot is ready
-  await registerCommands();
-  
-  // Restore cleaning tasks from database
-  await restoreCleaningTasks();
-  
-  console.log("🚀 Bot is ready and all cleaning tasks have been restored!");
-});
+// Take the bot's reactions off emojis that are no longer seeds
+async function withdrawSeedReactions(task: CleaningTask, seeds: string[]): Promise<void> {
+  for (const seed of seeds) {
+    const reaction = task.message.reactions.cache.find((reaction) => reaction.me && emojiKey(reaction.emoji) === seedKey(seed));
+    await reaction?.users.remove(client.user!.id).catch((error) => console.error(`Error removing seed reaction from ${task.messageUrl}:`, error));
+  }
+}
 
-client.on("interactionCreate", async (interaction) => {
-  if (!interaction.isChatInputCommand()) return;
+// Put the seed reactions back after someone removed the bot's reactions from a tracked message.
+// With an emoji given, nothing happens unless that emoji is a seed.
+function reseedTrackedMessage(messageId: string, emoji?: { id: string | null; name: string | null }): void {
+  const messageUrl = trackedMessageIds[messageId];
+  const task = messageUrl ? cleaningTasks[messageUrl] : undefined;
+  if (!task || task.seedReactions.length === 0 || task.dormant || isBackingOff(messageUrl) || seedingMessageIds.has(messageId)) return;
+  if (emoji && !task.seedReactions.some((seed) => seedKey(seed) === emojiKey(emoji))) return;
+  void sweepReactions(task);
+}
 
-  const ephemeralReply = (content: string, ephemeral: boolean = true): InteractionReplyOptions => ({
-    content,
-    ephemeral,
-  });
+// Remove every reaction that doesn't pass the emoji filter and user rules
+async function sweepUnwantedReactions(options: CleaningOptions, message: Message, context: RemovalContext): Promise<number> {
+  const unwanted = message.reactions.cache.filter((reaction) => shouldRemoveEmoji(options, reaction.emoji));
 
-  try {
-    if (interaction.commandName === "enable-reaction-cleaning") {
-      const messageUrlsRaw = interaction.options.getString("message_url", true);
-      
-      // Accept multiple URLs separated by space, comma, or newline
-      const urls = messageUrlsRaw
-        .split(/[\s,\n]+/)
-        .map((u) => u.trim())
-        .filter((u) => u.length > 0);
-
-      let started: string[] = [];
-      let alreadyRunning: string[] = [];
-      let invalid: string[] = [];
-      let errors: string[] = [];
-
-      for (const messageUrl of urls) {
-        const parsed = parseMessageUrl(messageUrl);
-        
-        if (!parsed) {
-          invalid.push(messageUrl);
-          continue;
-        }
+  let removed = 0;
+  for (const reaction of unwanted.values()) {
+    removed += await cleanReaction(options, message.guild, reaction, context);
+  }
+  return removed;
+}
 
-        const { channelId, messageId } = parsed;
-        const result = await startCleaning(messageUrl, channelId, messageId);
-        
-        if (result.success) {
-          // Add to database
-          try {
-            const dbResult = insertMessage.run(messageUrl, channelId, messageId) as DatabaseRunResult;
-            console.log(`✅ DB Insert successful for ${messageUrl}:`, dbResult);
-            started.push(messageUrl);
-          } catch (dbError) {
-            console.error(`❌ DB Insert failed for ${messageUrl}:`, dbError);
-            errors.push(`${messageUrl}: Database error - ${dbError}`);
-            // Stop cleaning since we couldn't save it
-            stopCleaning(messageUrl);
-          }
-        } else {
-          if (result.error === "Already cleaning this message") {
-            alreadyRunning.push(messageUrl);
-          } else {
-            errors.push(`${messageUrl}: ${result.error}`);
-          }
-        }
-      }
+// Remove the emojis beyond the distinct emoji cap, keeping the oldest emojis.
+// Per-emoji caps are only enforced as reactions come in: Discord lists reactors by user ID, not by when they
+// reacted, so a sweep can't tell which reactions are the newest.
+async function sweepCappedReactions(options: CleaningOptions, message: Message, context: RemovalContext): Promise<number> {
+  if (options.maxDistinctEmojis === null) return 0;
 
-      let reply = "";
-      if (started.length)
-        reply += `✅ **Started cleaning reactions for:**\n${started.map(url => `• ${url}`).join("\n")}\n\n`;
-      if (alreadyRunning.length)
-        reply += `🔄 **Already cleaning reactions for:**\n${alreadyRunning.map(url => `• ${url}`).join("\n")}\n\n`;
-      if (invalid.length)
-        reply += `❌ **Invalid message URLs:**\n${invalid.map(url => `• ${url}`).join("\n")}\n\n`;
-      if (errors.length)
-        reply += `⚠️ **Errors:**\n${errors.map(error => `• ${error}`).join("\n")}`;
-
-      if (!reply) reply = "No valid message URLs provided.";
-
-      await interaction.reply(ephemeralReply(reply.trim()));
-    }
-    else if (interaction.commandName === "disable-reaction-cleaning") {
-      const messageUrlsRaw = interaction.options.getString("message_url", true);
-      
-      // Accept multiple URLs separated by space, comma, or newline
-      const urls = messageUrlsRaw
-        .split(/[\s,\n]+/)
-        .map((u) => u.trim())
-        .filter((u) => u.length > 0);
-
-      if (urls.length === 0) {
-        await interaction.reply(ephemeralReply("No message URL(s) provided."));
-        return;
+  let removed = 0;
+  let keptEmojis = 0;
+
+  // Reactions are listed in the order their emoji was first added
+  for (const reaction of message.reactions.cache.values()) {
+    // Emojis the filter keeps are never trimmed, but they still take up a spot
+    if (shouldRemoveEmoji(options, reaction.emoji) && keptEmojis >= options.maxDistinctEmojis) {
+      removed += await cleanReaction(options, message.guild, reaction, context);
+      continue;
+    }
+    keptEmojis++;
+  }
+
+  return removed;
+}
+
+// Sweep every tracked message, one at a time to stay gentle on the rate limits
+async function sweepAllReactions(): Promise<void> {
+  for (const task of Object.values(cleaningTasks)) {
+    if (task.dormant) continue;
+    await sweepReactions(task);
+  }
+}
+
+// Start the optional periodic sweep
+function startSweepInterval(): void {
+  if (sweepInterval || !Number.isFinite(sweepIntervalSeconds) || sweepIntervalSeconds <= 0) return;
+
+  sweepInterval = setInterval(() => {
+    sweepAllReactions().catch((error) => console.error("❌ Periodic sweep failed:", error));
+  }, sweepIntervalSeconds * 1000);
+  console.log(`⏱️ Periodic reaction sweep enabled every ${sweepIntervalSeconds}s`);
+}
+
+// Function to stop cleaning a message
+function stopCleaning(messageUrl: string): boolean {
+  clearFailureState(messageUrl);
+
+  const task = cleaningTasks[messageUrl];
+  if (task) {
+    delete cleaningTasks[messageUrl];
+    delete trackedMessageIds[task.messageId];
+    console.log(`🛑 Stopped cleaning reactions for: ${messageUrl}`);
+    return true;
+  }
+  return false;
+}
+
+// Function to restore cleaning tasks from database on startup
+async function restoreCleaningTasks() {
+  const result = messageStore.getAll();
+  
+  console.log(`🔄 Restoring ${result.length} cleaning tasks from database...`);
+  
+  for (const row of result) {
+    if (row.status === 'errored') {
+      console.log(`⛔ Skipping errored message: ${row.message_url} - ${row.last_error}`);
+      continue;
+    }
+    if (row.status === 'paused') {
+      console.log(`⏸️ Skipping paused message: ${row.message_url}`);
+      continue;
+    }
+    if (row.status === 'expired') continue;
+    if (row.status === 'suspended') {
+      await resumeIfUnsuspended(row);
+      continue;
+    }
+    // The deadline may have passed while the bot was down
+    if (isExpired(rowToCleaningSchedule(row))) {
+      expireCleaning(row);
+      continue;
+    }
+
+    await restoreCleaningTask(row);
+  }
+}
+
+// Stop cleaning a tracked message but keep its configuration
+function pauseCleaning(row: TrackedMessage): void {
+  stopCleaning(row.message_url);
+  messageStore.setStatus(row.message_url, 'paused');
+  console.log(`⏸️ Paused cleaning for: ${row.message_url}`);
+}
+
+// Start cleaning a paused or errored message again, returns the error if it could not be started right away
+async function resumeCleaning(row: TrackedMessage): Promise<string | null> {
+  stopCleaning(row.message_url);
+  messageStore.setStatus(row.message_url, 'active');
+
+  const startResult = await startCleaning(row.message_url, row.channel_id, row.message_id, rowToCleaningOptions(row), rowToCleaningSchedule(row), JSON.parse(row.seed_reactions) as string[]);
+  if (startResult.success) {
+    console.log(`▶️ Resumed cleaning for: ${row.message_url}`);
+    return null;
+  }
+
+  // Keep retrying in the background like a restored task
+  handleCleaningFailure(row.message_url, startResult.error, () => restoreCleaningTask(row));
+  return startResult.error ?? "Unknown error";
+}
+
+// Start cleaning a stored message, retrying with backoff instead of forgetting it when that fails
+async function restoreCleaningTask(row: TrackedMessage): Promise<void> {
+  const startResult = await startCleaning(row.message_url, row.channel_id, row.message_id, rowToCleaningOptions(row), rowToCleaningSchedule(row), JSON.parse(row.seed_reactions) as string[]);
+  if (startResult.success) {
+    console.log(`✅ Restored cleaning for: ${row.message_url}`);
+    recordCleaningSuccess(row.message_url);
+  } else if (startResult.error !== "Already cleaning this message") {
+    console.log(`❌ Failed to restore cleaning for: ${row.message_url} - ${startResult.error}`);
+    handleCleaningFailure(row.message_url, startResult.error, () => restoreCleaningTask(row));
+  }
+}
+
+// Find the channel rule covering a message: its own channel or thread first, then the parent channel/forum, then the category
+function findChannelRule(channelId: string, messageId: string): ChannelRule | null {
+  const candidates = [channelId];
+  const channel = client.channels.cache.get(channelId);
+
+  if (channel && 'parentId' in channel && channel.parentId) {
+    candidates.push(channel.parentId);
+    if (channel.isThread() && channel.parent?.parentId) {
+      candidates.push(channel.parent.parentId);
+    }
+  }
+
+  for (const candidate of candidates) {
+    const rule = channelRules[candidate];
+    if (!rule) continue;
+    if (rule.scope === 'all' || SnowflakeUtil.timestampFrom(messageId) >= rule.createdAt) return rule;
+  }
+  return null;
+}
+
+// Find the cleaning configuration that applies to a message, tracked messages take precedence over channel rules
+function resolveCleaningTarget(message: Message | PartialMessage): { label: string; rule: string; options: CleaningOptions; guild: Guild | null; task?: CleaningTask } | null {
+  const messageUrl = trackedMessageIds[message.id];
+  if (messageUrl) {
+    const task = cleaningTasks[messageUrl];
+    return { label: messageUrl, rule: 'message', options: task.options, guild: task.message.guild, task };
+  }
+
+  const rule = findChannelRule(message.channelId, message.id);
+  if (rule) {
+    return {
+      label: `${message.url} (channel rule for ${rule.channelId})`,
+      rule: `channel:${rule.channelId}`,
+      options: rule.options,
+      guild: client.guilds.cache.get(rule.guildId) ?? null,
+    };
+  }
+
+  return null;
+}
+
+// Function to restore channel rules from database on startup
+async function restoreChannelRules() {
+  const result = getAllChannelRules.all() as ChannelRuleRow[];
+
+  console.log(`🔄 Restoring ${result.length} channel rules from database...`);
+
+  for (const row of result) {
+    try {
+      const channel = await client.channels.fetch(row.channel_id);
+      if (!channel) throw new Error("Channel not found");
+
+      channelRules[row.channel_id] = rowToChannelRule(row);
+      console.log(`✅ Restored channel rule for: ${row.channel_id}`);
+    } catch (error) {
+      console.log(`❌ Failed to restore channel rule for: ${row.channel_id} - ${error}`);
+      // Remove from database if the channel no longer exists
+      deleteChannelRule.run(row.channel_id);
+    }
+  }
+}
+
+// Function to restore watch rules from database on startup
+function restoreWatchRules(): void {
+  const result = getAllWatchRules.all() as WatchRuleRow[];
+
+  console.log(`🔄 Restoring ${result.length} watch rules from database...`);
+
+  for (const row of result) {
+    try {
+      watchRules[row.id] = rowToWatchRule(row);
+    } catch (error) {
+      console.log(`❌ Failed to restore watch rule #${row.id} - ${error}`);
+    }
+  }
+}
+
+// Whether a new message is in the rule's channel and meets all of its criteria
+function matchesWatchRule(rule: WatchRule, message: Message<true>): boolean {
+  const parentId = message.channel.isThread() ? message.channel.parentId : null;
+  if (message.channelId !== rule.channelId && parentId !== rule.channelId) return false;
+
+  if (rule.authorId && message.author.id !== rule.authorId) return false;
+  if (rule.webhookId && message.webhookId !== rule.webhookId) return false;
+  if (rule.roleId && !message.member?.roles.cache.has(rule.roleId)) return false;
+  if (!rule.contentPattern) return true;
+
+  try {
+    return matchesContentPattern(rule.contentPattern, message.content);
+  } catch (error) {
+    console.warn(`⏱️ Watch rule #${rule.id} content pattern gave up on ${message.url}: ${errorMessage(error)}`);
+    return false;
+  }
+}
+
+// Start tracking a message for a watch rule, then untrack the rule's oldest messages beyond its cap
+async function trackWatchedMessage(rule: WatchRule, message: Message<true>): Promise<void> {
+  const messageUrl = message.url;
+
+  messageStore.upsert({
+    message_url: messageUrl,
+    guild_id: message.guildId,
+    channel_id: message.channelId,
+    message_id: message.id,
+    ...cleaningOptionsToRow(rule.options),
+    ...cleaningScheduleToRow(defaultCleaningSchedule),
+  });
+  messageStore.setWatchRule(messageUrl, rule.id);
+  console.log(`👀 Watch rule #${rule.id} started tracking ${messageUrl}`);
+
+  await restoreCleaningTask(messageStore.get(messageUrl)!);
+
+  if (rule.maxTracked === null) return;
+  const tracked = messageStore.getByWatchRule(rule.id);
+  for (const row of tracked.slice(0, Math.max(0, tracked.length - rule.maxTracked))) {
+    stopCleaning(row.message_url);
+    messageStore.delete(row.message_url);
+    console.log(`🧺 Watch rule #${rule.id} untracked its oldest message ${row.message_url}`);
+  }
+}
+
+// Post a notice about tracked messages to the guild's log channel, if it has one
+async function postLifecycleNotice(guildId: string | null, content: string): Promise<void> {
+  // After being removed from a server its log channel can't be posted in anymore
+  if (!guildId || !client.guilds.cache.has(guildId)) return;
+  const settings = getGuildSettings.get(guildId) as GuildSettingsRow | undefined;
+  if (!settings?.log_channel_id) return;
+
+  try {
+    const channel = await client.channels.fetch(settings.log_channel_id);
+    if (!channel?.isSendable()) throw new Error("Log channel is not a text channel");
+    await channel.send({ content, allowedMentions: { parse: [] } });
+  } catch (error) {
+    console.error(`❌ Failed to post notice for guild ${guildId}:`, error);
+  }
+}
+
+// Stop tracking a message that can't come back, e.g. because it or its channel was deleted
+function untrackMessage(row: TrackedMessage, reason: string): void {
+  stopCleaning(row.message_url);
+  messageStore.delete(row.message_url);
+  deleteMessagePendingRemovals.run(row.message_id);
+  deleteMessageObservations.run(row.message_id);
+  deleteMessageVotes.run(row.message_id);
+  console.log(`🗑️ Untracked ${row.message_url}: ${reason}`);
+  void postLifecycleNotice(row.guild_id, `🗑️ Stopped cleaning ${row.message_url}: ${reason}`);
+}
+
+// Stop cleaning a message until whatever blocks it goes away, keeping its configuration
+function suspendCleaning(row: TrackedMessage, reason: string): void {
+  stopCleaning(row.message_url);
+  messageStore.setSuspended(row.message_url, reason);
+  console.log(`💤 Suspended cleaning for ${row.message_url}: ${reason}`);
+  void postLifecycleNotice(row.guild_id, `💤 Suspended cleaning ${row.message_url}: ${reason}`);
+}
+
+// Resume a suspended message once its server is back and its thread is open again
+async function resumeIfUnsuspended(row: TrackedMessage): Promise<void> {
+  if (row.guild_id && !client.guilds.cache.has(row.guild_id)) return;
+
+  const channel = await client.channels.fetch(row.channel_id).catch(() => null);
+  if (!channel || (channel.isThread() && (channel.archived || channel.locked))) return;
+
+  if (isExpired(rowToCleaningSchedule(row))) {
+    expireCleaning(row);
+    return;
+  }
+
+  await resumeCleaning(row);
+}
+
+// Stop tracking every message in a deleted channel, thread or category and drop its channel rule
+function untrackChannel(channelId: string, reason: string): void {
+  for (const row of messageStore.getAll()) {
+    if (isInChannel(row, channelId)) untrackMessage(row, reason);
+  }
+
+  if (getChannelRule.get(channelId)) {
+    delete channelRules[channelId];
+    deleteChannelRule.run(channelId);
+    console.log(`🗑️ Removed channel rule for ${channelId}: ${reason}`);
+  }
+
+  for (const rule of Object.values(watchRules).filter((rule) => rule.channelId === channelId)) {
+    delete watchRules[rule.id];
+    deleteWatchRule.run(rule.id);
+    messageStore.clearWatchRule(rule.id);
+    console.log(`🗑️ Removed watch rule #${rule.id}: ${reason}`);
+  }
+}
+
+// Register commands once for every server ('global') or separately in each server ('guild', the default).
+// Guild commands update instantly, global ones can take a while to show up after a change.
+const commandMode = process.env.COMMAND_MODE === 'global' ? 'global' : 'guild';
+
+// Optional list of the only servers that get guild commands, empty for every server the bot is in
+const commandGuildIds = (process.env.GUILD_IDS ?? "").split(",").map((id) => id.trim()).filter((id) => id.length > 0);
+
+// Changes whenever a command definition or the application changes, commands are only re-registered then
+const commandHash = createHash("sha256").update(JSON.stringify({ clientId: process.env.CLIENT_ID, commands })).digest("hex");
+
+const rest = new REST({ version: "10" }).setToken(process.env.DISCORD_TOKEN as string);
+
+// Hash of the commands registered by target, 'global' or a guild ID
+function loadCommandRegistrations(): Map<string, string> {
+  return new Map((getCommandRegistrations.all() as CommandRegistrationRow[]).map((row) => [row.target, row.command_hash]));
+}
+
+// Whether commands are registered in this guild in guild mode
+function wantsGuildCommands(guildId: string): boolean {
+  return commandMode === 'guild' && (commandGuildIds.length === 0 || commandGuildIds.includes(guildId));
+}
+
+// Register the commands in a guild unless the same definitions are already there
+async function registerGuildCommands(guildId: string): Promise<void> {
+  if (loadCommandRegistrations().get(guildId) === commandHash) return;
+
+  try {
+    const data = await rest.put(
+      Routes.applicationGuildCommands(process.env.CLIENT_ID as string, guildId),
+      { body: commands }
+    ) as Array<{ name: string }>;
+    setCommandRegistration.run(guildId, commandHash);
+
+    console.log(`✅ Successfully reloaded ${data.length} application (/) commands for guild ${guildId}.`);
+    console.log("📋 Registered commands:", data.map(cmd => cmd.name));
+  } catch (error) {
+    console.error(`❌ Error registering commands for guild ${guildId}:`, error);
+  }
+}
+
+// Remove the commands from a guild. Fails once the bot has left, Discord drops them then anyway.
+async function removeGuildCommands(guildId: string): Promise<void> {
+  deleteCommandRegistration.run(guildId);
+  try {
+    await rest.put(Routes.applicationGuildCommands(process.env.CLIENT_ID as string, guildId), { body: [] });
+    console.log(`🧹 Removed application (/) commands from guild ${guildId}.`);
+  } catch (error) {
+    console.warn(`⚠️ Could not remove application (/) commands from guild ${guildId}: ${errorMessage(error)}`);
+  }
+}
+
+// Register slash commands function
+async function registerCommands() {
+  const registrations = loadCommandRegistrations();
+  // In global mode guild commands are only removed once the global ones are in place
+  let globalCommandsReady = commandMode === 'guild';
+
+  try {
+    console.log(`🔄 Started refreshing application (/) commands in ${commandMode} mode.`);
+
+    if (commandMode === 'global') {
+      if (registrations.get('global') === commandHash) {
+        console.log("✅ Global application (/) commands are up to date.");
+        globalCommandsReady = true;
+      } else {
+        const data = await rest.put(Routes.applicationCommands(process.env.CLIENT_ID as string), { body: commands }) as Array<{ name: string }>;
+        setCommandRegistration.run('global', commandHash);
+        globalCommandsReady = true;
+        console.log(`✅ Successfully reloaded ${data.length} global application (/) commands.`);
+        console.log("📋 Registered commands:", data.map(cmd => cmd.name));
+
+        // Servers from GUILD_IDS may still have guild commands from before registrations were recorded
+        for (const guildId of commandGuildIds) {
+          if (!registrations.has(guildId) && client.guilds.cache.has(guildId)) await removeGuildCommands(guildId);
+        }
       }
+    } else if (registrations.has('global')) {
+      // Switched from global mode, the global commands would show up next to the guild ones
+      await rest.put(Routes.applicationCommands(process.env.CLIENT_ID as string), { body: [] });
+      deleteCommandRegistration.run('global');
+      console.log("🧹 Removed global application (/) commands.");
+    }
+  } catch (error) {
+    console.error("❌ Error registering commands:", error);
+  }
+
+  // Guild commands of servers that no longer get them, including every server after switching to global mode.
+  // When the global registration failed the servers keep their guild commands until the next start.
+  if (globalCommandsReady) {
+    for (const target of registrations.keys()) {
+      if (target !== 'global' && !(client.guilds.cache.has(target) && wantsGuildCommands(target))) await removeGuildCommands(target);
+    }
+  }
+
+  let upToDate = 0;
+  for (const guildId of client.guilds.cache.keys()) {
+    if (!wantsGuildCommands(guildId)) continue;
+    if (registrations.get(guildId) === commandHash) upToDate++;
+    else await registerGuildCommands(guildId);
+  }
+  if (upToDate) console.log(`✅ Application (/) commands are up to date in ${upToDate} guild(s).`);
+}
+
+// Count failed Discord API requests by status code
+client.rest.on("response", (_request, response) => {
+  if (!response.ok) restFailuresTotal[response.status] = (restFailuresTotal[response.status] ?? 0) + 1;
+});
+
+// Whether the database still answers queries
+function isDatabaseReachable(): boolean {
+  try {
+    db.prepare("SELECT 1").get();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Gateway heartbeat latency, -1 until the first heartbeat was acknowledged
+function websocketPing(): number {
+  return Number.isFinite(client.ws.ping) ? client.ws.ping : -1;
+}
+
+// Health of the gateway connection and the database, for container health checks
+function buildHealthReport() {
+  const gatewayReady = client.isReady();
+  const databaseReachable = isDatabaseReachable();
+
+  return {
+    healthy: gatewayReady && databaseReachable,
+    body: {
+      status: gatewayReady && databaseReachable ? "ok" : "unhealthy",
+      gateway: gatewayReady ? "ready" : "disconnected",
+      database: databaseReachable ? "ok" : "unreachable",
+      websocketPingMs: websocketPing(),
+    },
+  };
+}
+
+// Render the bot's state in the Prometheus text format
+function buildMetrics(): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string, samples: [string, number][]) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [labels, value] of samples) lines.push(`${name}${labels} ${value}`);
+  };
+
+  const statusCounts: Record<TrackedMessageStatus, number> = { active: 0, paused: 0, errored: 0, expired: 0, suspended: 0 };
+  if (isDatabaseReachable()) Object.assign(statusCounts, messageStore.countByStatus());
+
+  const tasks = Object.values(cleaningTasks);
+  metric("reaction_cleaner_tracked_messages", "gauge", "Tracked messages by status.",
+    Object.entries(statusCounts).map(([status, count]) => [`{status="${status}"}`, count]));
+  metric("reaction_cleaner_cleaning_tasks", "gauge", "Running cleaning tasks by state.", [
+    ['{state="cleaning"}', tasks.filter((task) => !task.dormant).length],
+    ['{state="dormant"}', tasks.filter((task) => task.dormant).length],
+    ['{state="retrying"}', Object.keys(failureStates).length],
+  ]);
+  metric("reaction_cleaner_channel_rules", "gauge", "Channel rules being enforced.", [["", Object.keys(channelRules).length]]);
+  metric("reaction_cleaner_reactions_removed_total", "counter", "Reactions removed since the bot started.", [["", reactionsRemovedTotal]]);
+  metric("reaction_cleaner_rest_failures_total", "counter", "Failed Discord API requests since the bot started, by status code.",
+    Object.entries(restFailuresTotal).map(([status, count]) => [`{status="${status}"}`, count]));
+  metric("reaction_cleaner_gateway_ready", "gauge", "Whether the gateway connection is ready.", [["", client.isReady() ? 1 : 0]]);
+  metric("reaction_cleaner_websocket_ping_milliseconds", "gauge", "Gateway heartbeat latency, -1 before the first heartbeat.", [["", websocketPing()]]);
+
+  return `${lines.join("\n")}\n`;
+}
+
+// Serve /healthz and /metrics when HTTP_PORT is set
+function startHttpServer(): void {
+  if (!httpPort) return;
+
+  httpServer = http.createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+
+    if (request.method === "GET" && url.pathname === "/healthz") {
+      const report = buildHealthReport();
+      response.writeHead(report.healthy ? 200 : 503, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(report.body));
+    } else if (request.method === "GET" && url.pathname === "/metrics") {
+      response.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+      response.end(buildMetrics());
+    } else {
+      response.writeHead(404, { "Content-Type": "text/plain" });
+      response.end("Not found");
+    }
+  });
+
+  httpServer.on("error", (error) => console.error("❌ Health server error:", error));
+  httpServer.listen(httpPort, () => console.log(`🩺 Health and metrics server listening on port ${httpPort}`));
+}
+
+client.once("ready", async () => {
+  console.log(`🤖 Logged in as ${client.user?.tag}`);
+  
+  // Register commands after bot is ready
+  await registerCommands();
+  
+  // Restore cleaning tasks and channel rules from database
+  await restoreCleaningTasks();
+  await restoreChannelRules();
+  restoreWatchRules();
+
+  startSweepInterval();
+  startAuditLogFlush();
+  startScheduleChecks();
+  startPendingRemovals();
+  startReportSchedule();
+  startAuditPrune();
+  
+  console.log("🚀 Bot is ready and all cleaning tasks have been restored!");
+});
+
+// Remove reactions as they are added to tracked messages and messages covered by channel rules
+client.on("messageReactionAdd", async (reaction, user) => {
+  if (user.id === client.user?.id) return;
+  const target = resolveCleaningTarget(reaction.message);
+  if (!target) return;
+
+  // A pending retry sweep will pick this reaction up
+  if (target.task && isBackingOff(target.task.messageUrl)) return;
+  // Outside the active window reactions are allowed
+  if (target.task?.dormant) return;
+
+  if (!shouldRemoveEmoji(target.options, reaction.emoji)) return;
+
+  const message = reaction.message;
+  const context: RemovalContext = { guildId: message.guildId, channelId: message.channelId, messageId: message.id, rule: target.rule };
+
+  try {
+    if (hasUserRules(target.options) || hasCaps(target.options)) {
+      if (!(await shouldRemoveUserReaction(target.options, target.guild, user.id))) return;
+      if (hasCaps(target.options) && !(await exceedsCaps(target.options, reaction))) return;
+    }
+
+    if (target.options.observe) {
+      recordObservations(context, emojiKey(reaction.emoji), [user.id]);
+      return;
+    }
+
+    // Let the reaction stay visible for the grace period, the queue removes it afterwards
+    if (target.options.graceSeconds) {
+      schedulePendingRemovals(context, reaction.emoji, [user.id], target.options.graceSeconds);
+      return;
+    }
+
+    // Removing the whole emoji would take the bot's seed reaction with it
+    const seeded = reaction.me || target.task?.seedReactions.some((seed) => seedKey(seed) === emojiKey(reaction.emoji));
+    if (hasUserRules(target.options) || hasCaps(target.options) || seeded) {
+      await reaction.users.remove(user.id);
+    } else {
+      // Works on partial reactions too, only the emoji identifier is needed
+      const othersCount = (reaction.count ?? 1) - 1;
+      await reaction.remove();
+      // Whoever else had reacted with this emoji went with it
+      if (othersCount > 0) recordBulkRemoval(context, emojiKey(reaction.emoji), othersCount);
+    }
+
+    recordRemovals(context, emojiKey(reaction.emoji), [user.id]);
+    console.log(`🧹 Removed ${reaction.emoji.name ?? reaction.emoji.id} reaction by ${user.id} on: ${target.label}`);
+    if (target.task) recordCleaningSuccess(target.task.messageUrl);
+  } catch (error) {
+    console.error(`Error removing reaction for ${target.label}:`, error);
+    const task = target.task;
+    if (task && cleaningTasks[task.messageUrl] === task) {
+      handleCleaningFailure(task.messageUrl, error, () => sweepReactions(task));
+    }
+  }
+});
+
+client.on("messageReactionRemove", (reaction, user) => {
+  if (user.id === client.user?.id) reseedTrackedMessage(reaction.message.id, reaction.emoji);
+});
+
+client.on("messageReactionRemoveAll", (message) => {
+  reseedTrackedMessage(message.id);
+});
+
+client.on("messageReactionRemoveEmoji", (reaction) => {
+  // The cleaner removes whole emojis too, but never one the bot reacted with
+  reseedTrackedMessage(reaction.message.id, reaction.emoji);
+});
+
+// Commands any member may use, the rest need Manage Messages or the server's manager role
+const publicCommands = ["ping", "source-code"];
+const missingManagerMessage = "🚫 You need the Manage Messages permission or the cleaner manager role to use this.";
+
+// Whether the member who triggered the interaction may manage reaction cleaning in the server
+function canManageCleaning(interaction: Interaction): boolean {
+  if (!interaction.inGuild()) return false;
+  if (interaction.memberPermissions.has(PermissionFlagsBits.ManageMessages)) return true;
+
+  const settings = getGuildSettings.get(interaction.guildId) as GuildSettingsRow | undefined;
+  if (!settings?.manager_role_id) return false;
+
+  // Members of uncached guilds come as raw API data with a list of role IDs
+  const roles = interaction.member.roles;
+  return Array.isArray(roles) ? roles.includes(settings.manager_role_id) : roles.cache.has(settings.manager_role_id);
+}
+
+// Check that both the member and the bot can manage messages in a channel, returns the problem or null
+async function findChannelPermissionProblem(interaction: Interaction, channelId: string): Promise<string | null> {
+  const channel = await client.channels.fetch(channelId).catch(() => null);
+  if (!channel || channel.isDMBased()) return `The bot can't access <#${channelId}>`;
+  if (channel.guildId !== interaction.guildId) return `<#${channelId}> is not in this server`;
+
+  const botPermissions = channel.permissionsFor(client.user!);
+  if (!botPermissions?.has(PermissionFlagsBits.ManageMessages)) return `The bot needs the Manage Messages permission in <#${channelId}>`;
+
+  const member = interaction.member instanceof GuildMember
+    ? interaction.member
+    : await channel.guild.members.fetch(interaction.user.id).catch(() => null);
+  if (!member || !channel.permissionsFor(member).has(PermissionFlagsBits.ManageMessages)) return `You need the Manage Messages permission in <#${channelId}>`;
+
+  return null;
+}
+
+// Check that the bot can post report embeds in a channel of this server, returns the problem or null
+async function findReportChannelProblem(interaction: Interaction, channelId: string): Promise<string | null> {
+  const channel = await client.channels.fetch(channelId).catch(() => null);
+  if (!channel || channel.isDMBased()) return `The bot can't access <#${channelId}>`;
+  if (channel.guildId !== interaction.guildId) return `<#${channelId}> is not in this server`;
+
+  const send = channel.isThread() ? PermissionFlagsBits.SendMessagesInThreads : PermissionFlagsBits.SendMessages;
+  const botPermissions = channel.permissionsFor(client.user!);
+  if (!botPermissions?.has([PermissionFlagsBits.ViewChannel, send, PermissionFlagsBits.EmbedLinks])) {
+    return `The bot needs the View Channel, Send Messages and Embed Links permissions in <#${channelId}>`;
+  }
+
+  return null;
+}
+
+// Autocomplete choices are limited by Discord to 25 entries of up to 100 characters
+const maxAutocompleteChoices = 25;
+const maxAutocompleteLength = 100;
+
+// Label a tracked message with its channel name and a preview of its content
+function describeTrackedMessage(row: TrackedMessage): string {
+  const channel = client.channels.cache.get(row.channel_id);
+  const channelName = channel && 'name' in channel && channel.name ? `#${channel.name}` : row.channel_id;
+
+  // Only cached messages are used, autocomplete has to answer within a few seconds
+  const message = cleaningTasks[row.message_url]?.message
+    ?? (channel?.isTextBased() ? channel.messages.cache.get(row.message_id) : undefined);
+  const preview = message?.content ? message.content.replace(/\s+/g, " ") : `Message ${row.message_id}`;
+
+  const label = `${channelName} — ${preview}`;
+  return label.length > maxAutocompleteLength ? `${label.slice(0, maxAutocompleteLength - 1)}…` : label;
+}
+
+// Suggest the tracked messages of the server for the message URL being typed
+async function autocompleteTrackedMessages(interaction: AutocompleteInteraction): Promise<void> {
+  if (!interaction.inGuild() || !canManageCleaning(interaction)) {
+    await interaction.respond([]);
+    return;
+  }
+
+  // Several URLs can be given, only the one being typed is completed
+  const tokens = interaction.options.getFocused().split(/[\s,\n]+/);
+  const query = (tokens.pop() ?? "").toLowerCase();
+  const previous = tokens.filter((token) => token.length > 0);
+  const prefix = previous.length ? `${previous.join(" ")} ` : "";
+
+  const rows = messageStore.getGuild(interaction.guildId);
+  const choices: { name: string; value: string }[] = [];
+
+  for (const row of rows) {
+    if (previous.includes(row.message_url)) continue;
+
+    const name = describeTrackedMessage(row);
+    if (query && !row.message_url.toLowerCase().includes(query) && !name.toLowerCase().includes(query)) continue;
+
+    const value = `${prefix}${row.message_url}`;
+    if (value.length > maxAutocompleteLength) continue;
+
+    choices.push({ name, value });
+    if (choices.length === maxAutocompleteChoices) break;
+  }
+
+  await interaction.respond(choices);
+}
+
+// Start cleaning the message the context menu was opened on, or stop if it is already tracked
+async function toggleMessageCleaning(interaction: MessageContextMenuCommandInteraction): Promise<void> {
+  if (!interaction.inGuild()) {
+    await interaction.reply({ content: "This command can only be used in a server.", ephemeral: true });
+    return;
+  }
+
+  if (!canManageCleaning(interaction)) {
+    await interaction.reply({ content: missingManagerMessage, ephemeral: true });
+    return;
+  }
+
+  // Checking permissions and fetching the message to start cleaning can take longer than the 3 second reply window
+  await interaction.deferReply({ ephemeral: true });
+
+  const message = interaction.targetMessage;
+  const permissionProblem = await findChannelPermissionProblem(interaction, message.channelId);
+  if (permissionProblem) {
+    await interaction.editReply({ content: `🔒 ${permissionProblem}.` });
+    return;
+  }
 
-      let stopped: string[] = [];
-      let notRunning: string[] = [];
-      let invalid: string[] = [];
+  // The message may have been tracked through a differently formatted link
+  const existing = messageStore.getGuild(interaction.guildId).find((row) => row.message_id === message.id);
+  const messageUrl = existing?.message_url ?? message.url;
 
-      for (const url of urls) {
-        const parsed = parseMessageUrl(url);
-        
-        if (!parsed) {
-          invalid.push(url);
-          continue;
+  // Errored and paused messages have no running task but still have a row
+  if (existing) {
+    stopCleaning(messageUrl);
+    try {
+      messageStore.delete(messageUrl);
+      console.log(`✅ DB Delete successful for ${messageUrl}`);
+    } catch (dbError) {
+      console.error(`❌ DB Delete failed for ${messageUrl}:`, dbError);
+    }
+    await interaction.editReply({ content: `🛑 **Stopped cleaning reactions for:**\n• ${messageUrl}` });
+    return;
+  }
+
+  const result = await startCleaning(messageUrl, message.channelId, message.id);
+  if (!result.success) {
+    await interaction.editReply({ content: `⚠️ **Errors:**\n• ${messageUrl}: ${result.error}` });
+    return;
+  }
+
+  try {
+    messageStore.upsert({
+      message_url: messageUrl,
+      guild_id: interaction.guildId,
+      channel_id: message.channelId,
+      message_id: message.id,
+      ...cleaningOptionsToRow(defaultCleaningOptions),
+      ...cleaningScheduleToRow(defaultCleaningSchedule),
+    });
+    console.log(`✅ DB Insert successful for ${messageUrl}`);
+  } catch (dbError) {
+    console.error(`❌ DB Insert failed for ${messageUrl}:`, dbError);
+    stopCleaning(messageUrl);
+    await interaction.editReply({ content: `⚠️ **Errors:**\n• ${messageUrl}: Database error - ${dbError}` });
+    return;
+  }
+
+  await interaction.editReply({ content: `✅ **Started cleaning ${describeCleaningOptions(defaultCleaningOptions)} for:**\n• ${messageUrl}\n\nUse \`/edit-reaction-cleaning\` to change its options.` });
+}
+
+// Tracked messages shown per page of the list, each gets its own row of buttons next to the page buttons
+const listPageSize = 4;
+
+const channelTypeEmoji: Record<number, string> = {
+  [ChannelType.GuildText]: "💬",
+  [ChannelType.GuildAnnouncement]: "📢",
+  [ChannelType.PublicThread]: "🧵",
+  [ChannelType.PrivateThread]: "🔒🧵",
+  [ChannelType.AnnouncementThread]: "📢🧵",
+};
+
+// Emoji summarising the state of a tracked message
+function trackedMessageState(row: TrackedMessage): string {
+  if (row.status === 'errored') return "⛔";
+  if (row.status === 'paused') return "⏸️";
+  if (row.status === 'expired') return "⌛";
+  if (row.status === 'suspended') return "💤";
+  if (cleaningTasks[row.message_url]?.dormant) return "🌙";
+  if (failureStates[row.message_url]) return "🟡";
+  return cleaningTasks[row.message_url] ? "🟢" : "🔴";
+}
+
+// Whether a tracked message is in the channel, or in a thread or channel under it
+function isInChannel(row: TrackedMessage, channelId: string): boolean {
+  if (row.channel_id === channelId) return true;
+
+  const channel = client.channels.cache.get(row.channel_id);
+  if (!channel || !('parentId' in channel) || !channel.parentId) return false;
+  if (channel.parentId === channelId) return true;
+
+  // Threads in a channel under the category
+  const parent = client.channels.cache.get(channel.parentId);
+  return !!parent && 'parentId' in parent && parent.parentId === channelId;
+}
+
+// Custom ID of a list button, carrying the page and filter so the list can be rebuilt from it
+function listButtonId(action: string, page: number, channelFilter: string | null, messageId: string = ""): string {
+  return `list:${action}:${page}:${channelFilter ?? ""}:${messageId}`;
+}
+
+// Build one page of the tracked message list with its buttons
+async function buildTrackedMessageList(guildId: string, page: number, channelFilter: string | null) {
+  const allMessages = messageStore.getGuild(guildId);
+  const trackedMessages = channelFilter ? allMessages.filter((row) => isInChannel(row, channelFilter)) : allMessages;
+
+  if (trackedMessages.length === 0) {
+    return {
+      content: channelFilter ? `No messages in <#${channelFilter}> are being tracked for cleaning.` : "No messages are currently being tracked for cleaning.",
+      embeds: [],
+      components: [],
+    };
+  }
+
+  const pageCount = Math.ceil(trackedMessages.length / listPageSize);
+  const currentPage = Math.min(Math.max(page, 0), pageCount - 1);
+  const pageRows = trackedMessages.slice(currentPage * listPageSize, (currentPage + 1) * listPageSize);
+
+  const activeCount = trackedMessages.filter((row) => cleaningTasks[row.message_url]).length;
+  const erroredCount = trackedMessages.filter((row) => row.status === 'errored').length;
+
+  const embed = new EmbedBuilder()
+    .setTitle("📋 Tracked Messages")
+    .setColor(0x5865f2)
+    .setDescription(`${trackedMessages.length} total, ${activeCount} active${erroredCount ? `, ${erroredCount} errored` : ""}${channelFilter ? ` in <#${channelFilter}>` : ""}`)
+    .setFooter({ text: `Page ${currentPage + 1}/${pageCount} • 🟢 Active | 🟡 Retrying | 🌙 Outside active hours | ⏸️ Paused | 💤 Suspended | ⌛ Expired | ⛔ Errored | 🔴 Not running` });
+
+  const components: ActionRowBuilder<ButtonBuilder>[] = [];
+
+  for (const [index, row] of pageRows.entries()) {
+    const number = currentPage * listPageSize + index + 1;
+
+    // Only the rows on this page are looked up, and the cache is tried first
+    let channel: Channel | null = client.channels.cache.get(row.channel_id) ?? null;
+    if (!channel) {
+      channel = await client.channels.fetch(row.channel_id).catch(() => null);
+    }
+    const channelInfo = channel ? ` ${channelTypeEmoji[channel.type] || "❓"}` : "";
+
+    const options = rowToCleaningOptions(row);
+    const scheduleText = describeSchedule(rowToCleaningSchedule(row));
+    const seedText = describeSeedReactions(JSON.parse(row.seed_reactions) as string[]);
+    const reason = row.status === 'errored' || row.status === 'suspended' || failureStates[row.message_url]
+      ? `\n↳ ${row.status === 'errored' ? "Errored" : row.status === 'suspended' ? "Suspended" : `Retrying after ${row.failure_count} failure(s)`}: ${row.last_error ?? "unknown error"}`
+      : "";
+
+    let value = `${row.message_url} in <#${row.channel_id}>\nAdded <t:${Math.floor(parseSqliteTimestamp(row.added_at).getTime() / 1000)}:d> — ${describeCleaningOptions(options)}${scheduleText ? ` — ${scheduleText}` : ""}${seedText ? ` — ${seedText}` : ""}${row.watch_rule_id ? ` — watch rule #${row.watch_rule_id}` : ""}${reason}`;
+    if (value.length > 1024) value = `${value.slice(0, 1023)}…`;
+    embed.addFields({ name: `${number}. ${trackedMessageState(row)}${channelInfo}`, value });
+
+    const canResume = row.status === 'paused' || row.status === 'errored' || row.status === 'suspended';
+    components.push(new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(listButtonId(canResume ? "resume" : "pause", currentPage, channelFilter, row.message_id))
+        .setLabel(`${canResume ? "Resume" : "Pause"} #${number}`)
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(row.status === 'expired'),
+      new ButtonBuilder()
+        .setCustomId(listButtonId("disable", currentPage, channelFilter, row.message_id))
+        .setLabel(`Disable #${number}`)
+        .setStyle(ButtonStyle.Danger),
+    ));
+  }
+
+  components.push(new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(listButtonId("page", currentPage - 1, channelFilter))
+      .setLabel("◀ Previous")
+      .setStyle(ButtonStyle.Primary)
+      .setDisabled(currentPage === 0),
+    new ButtonBuilder()
+      .setCustomId(listButtonId("page", currentPage + 1, channelFilter))
+      .setLabel("Next ▶")
+      .setStyle(ButtonStyle.Primary)
+      .setDisabled(currentPage >= pageCount - 1),
+  ));
+
+  return { content: "", embeds: [embed], components };
+}
+
+// Handle the page, pause/resume and disable buttons of the tracked message list
+async function handleListButton(interaction: ButtonInteraction): Promise<void> {
+  if (!interaction.inGuild()) return;
+  const guildId = interaction.guildId;
+
+  if (!canManageCleaning(interaction)) {
+    await interaction.reply({ content: missingManagerMessage, ephemeral: true });
+    return;
+  }
+
+  const [, action, pageRaw, channelRaw, messageId] = interaction.customId.split(":");
+  const page = Number(pageRaw);
+  const channelFilter = channelRaw || null;
+
+  // Resuming refetches the message, which can take longer than the 3 second reply window
+  await interaction.deferUpdate();
+
+  if (action !== "page") {
+    const row = messageStore.getGuild(guildId).find((message) => message.message_id === messageId);
+
+    // The list may be stale, someone else could have changed the message in the meantime
+    if (row) {
+      // Resuming where the bot lost access would only send the message back into the failure backoff
+      const permissionProblem = await findChannelPermissionProblem(interaction, row.channel_id);
+      if (permissionProblem) {
+        await interaction.followUp({ content: `🔒 ${permissionProblem}.`, ephemeral: true });
+      } else if (action === "disable") {
+        stopCleaning(row.message_url);
+        try {
+          messageStore.delete(row.message_url);
+          console.log(`✅ DB Delete successful for ${row.message_url}`);
+        } catch (dbError) {
+          console.error(`❌ DB Delete failed for ${row.message_url}:`, dbError);
         }
-        
-        if (stopCleaning(url)) {
-          // Remove from database
-          try {
-            const dbResult = deleteMessage.run(url) as DatabaseRunResult;
-            console.log(`✅ DB Delete successful for ${url}:`, dbResult);
-            stopped.push(url);
-          } catch (dbError) {
-            console.error(`❌ DB Delete failed for ${url}:`, dbError);
-            stopped.push(url); // Still consider it stopped from memory
-          }
-        } else {
-          notRunning.push(url);
+      } else if (action === "pause" && row.status !== 'paused') {
+        pauseCleaning(row);
+      } else if (action === "resume" && (row.status === 'paused' || row.status === 'errored' || row.status === 'suspended') && !isExpired(rowToCleaningSchedule(row))) {
+        const error = await resumeCleaning(row);
+        if (error) {
+          await interaction.followUp({ content: `⚠️ **Errors:**\n• ${row.message_url}: ${error} (will keep retrying)`, ephemeral: true });
         }
       }
+    }
+  }
+
+  await interaction.editReply(await buildTrackedMessageList(guildId, page, channelFilter));
+}
+
+// Summarize what observe mode would have removed, for one message or the whole server
+function buildObservationReport(guildId: string, messageId: string | null): EmbedBuilder {
+  const where = messageId ? "guild_id = @guild_id AND message_id = @message_id" : "guild_id = @guild_id";
+  const params = { guild_id: guildId, message_id: messageId };
+
+  const totals = db.prepare(`SELECT COUNT(*) AS count, COUNT(DISTINCT user_id) AS users, MIN(observed_at) AS since FROM reaction_observations WHERE ${where}`)
+    .get(params) as { count: number; users: number; since: string | null };
+  const byEmoji = db.prepare(`SELECT emoji, COUNT(*) AS count FROM reaction_observations WHERE ${where} GROUP BY emoji ORDER BY count DESC LIMIT 10`)
+    .all(params) as { emoji: string; count: number }[];
+  const byUser = db.prepare(`SELECT user_id, COUNT(*) AS count FROM reaction_observations WHERE ${where} GROUP BY user_id ORDER BY count DESC LIMIT 10`)
+    .all(params) as { user_id: string; count: number }[];
+
+  const embed = new EmbedBuilder()
+    .setTitle("👀 Observe mode report")
+    .setColor(0xfee75c)
+    .setTimestamp();
+
+  if (totals.count === 0) {
+    return embed.setDescription("No reactions would have been removed so far.");
+  }
+
+  const since = `<t:${Math.floor(parseSqliteTimestamp(totals.since!).getTime() / 1000)}:R>`;
+  embed.setDescription(`**${totals.count}** reaction(s) from **${totals.users}** user(s) would have been removed since ${since}.`);
+  embed.addFields(
+    { name: "By emoji", value: byEmoji.map((row) => `${formatEmojiKey(row.emoji)} ×${row.count}`).join("\n"), inline: true },
+    { name: "By user", value: byUser.map((row) => `<@${row.user_id}> ×${row.count}`).join("\n"), inline: true },
+  );
+
+  if (!messageId) {
+    const byMessage = db.prepare("SELECT channel_id, message_id, COUNT(*) AS count FROM reaction_observations WHERE guild_id = ? GROUP BY message_id ORDER BY count DESC LIMIT 10")
+      .all(guildId) as { channel_id: string; message_id: string; count: number }[];
+    embed.addFields({ name: "By message", value: byMessage.map((row) => `${messageLink(guildId, row.channel_id, row.message_id)} ×${row.count}`).join("\n") });
+  }
+
+  return embed;
+}
+
+// Stop observing a tracked message and remove the reactions it would have removed
+function enforceTrackedMessage(row: TrackedMessage): void {
+  const options: CleaningOptions = { ...rowToCleaningOptions(row), observe: false };
+  messageStore.updateOptions(row.message_url, cleaningOptionsToRow(options));
+  deleteMessageObservations.run(row.message_id);
+
+  const task = cleaningTasks[row.message_url];
+  if (task) {
+    task.options = options;
+    if (!task.dormant) void sweepReactions(task);
+  }
+  console.log(`🧹 Switched ${row.message_url} from observing to removing reactions`);
+}
 
-      let reply = "";
-      if (stopped.length)
-        reply += `🛑 **Stopped cleaning reactions for:**\n${stopped.map(url => `• ${url}`).join("\n")}\n\n`;
-      if (notRunning.length)
-        reply += `ℹ️ **No cleaning task was running for:**\n${notRunning.map(url => `• ${url}`).join("\n")}\n\n`;
-      if (invalid.length)
-        reply += `❌ **Invalid message URLs:**\n${invalid.map(url => `• ${url}`).join("\n")}`;
+// Switch every observing tracked message, channel rule and watch rule of a server to removing reactions.
+// Those in channels the bot or the member can't manage messages in keep observing and are returned as skipped.
+async function enforceGuild(interaction: ButtonInteraction, guildId: string): Promise<{ switched: number; skipped: string[] }> {
+  let switched = 0;
+  const skipped: string[] = [];
 
-      if (!reply) reply = "No valid message URLs provided.";
+  // Each channel is only checked once, a server can have many observed messages in the same one
+  const problems = new Map<string, string | null>();
+  const permissionProblem = async (channelId: string) => {
+    if (!problems.has(channelId)) problems.set(channelId, await findChannelPermissionProblem(interaction, channelId));
+    return problems.get(channelId)!;
+  };
 
-      await interaction.reply(ephemeralReply(reply.trim()));
+  for (const row of messageStore.getGuild(guildId)) {
+    if (!row.observe) continue;
+    const problem = await permissionProblem(row.channel_id);
+    if (problem) {
+      skipped.push(`${row.message_url}: ${problem}`);
+      continue;
     }
-    else if (interaction.commandName === "disable-all-cleaning") {
-      const activeUrls = Object.keys(cleaningTasks);
-      
-      if (activeUrls.length === 0) {
-        await interaction.reply(ephemeralReply("No messages are currently being cleaned."));
-        return;
-      }
+    enforceTrackedMessage(row);
+    switched++;
+  }
 
-      // Stop all cleaning tasks
-      for (const url of activeUrls) {
-        stopCleaning(url);
-      }
+  for (const rule of Object.values(channelRules).filter((rule) => rule.guildId === guildId && rule.options.observe)) {
+    const problem = await permissionProblem(rule.channelId);
+    if (problem) {
+      skipped.push(`Channel rule <#${rule.channelId}>: ${problem}`);
+      continue;
+    }
+    rule.options = { ...rule.options, observe: false };
+    upsertChannelRule.run({ channel_id: rule.channelId, guild_id: guildId, scope: rule.scope, ...cleaningOptionsToRow(rule.options) });
+    deleteRuleObservations.run(guildId, `channel:${rule.channelId}`);
+    switched++;
+  }
 
-      // Clear all from database
-      try {
-        const dbResult = clearAllMessages.run() as DatabaseRunResult;
-        console.log(`✅ DB Clear all successful:`, dbResult);
-        await interaction.reply(ephemeralReply(`🛑 Stopped cleaning reactions for all \`${activeUrls.length}\` message(s).`));
-      } catch (dbError) {
-        console.error(`❌ DB Clear all failed:`, dbError);
-        await interaction.reply(ephemeralReply(`🛑 Failed to stop cleaning reactions for all \`${activeUrls.length}\` message(s). Warning: Database clear failed.`));
-      }
+  for (const rule of Object.values(watchRules).filter((rule) => rule.guildId === guildId && rule.options.observe)) {
+    const problem = await permissionProblem(rule.channelId);
+    if (problem) {
+      skipped.push(`Watch rule #${rule.id}: ${problem}`);
+      continue;
     }
-    else if (interaction.commandName === "list-reaction-cleaning") {
-      const trackedMessages = getAllMessages.all() as TrackedMessage[];
-      
-      if (trackedMessages.length === 0) {
-        await interaction.reply(ephemeralReply("No messages are currently being tracked for cleaning."));
-        return;
-      }
+    rule.options = { ...rule.options, observe: false };
+    setWatchRuleObserve.run(0, rule.id);
+    switched++;
+  }
+
+  return { switched, skipped };
+}
+
+// Handle the switch to enforcing button of an observe mode report
+async function handleObserveButton(interaction: ButtonInteraction): Promise<void> {
+  if (!interaction.inGuild()) return;
+  const guildId = interaction.guildId;
+
+  if (!canManageCleaning(interaction)) {
+    await interaction.reply({ content: missingManagerMessage, ephemeral: true });
+    return;
+  }
+
+  const [, action, messageId] = interaction.customId.split(":");
+
+  // Checking permissions can take longer than the 3 second reply window
+  await interaction.deferUpdate();
+
+  if (action === "enforce-all") {
+    const { switched, skipped } = await enforceGuild(interaction, guildId);
+    let content = `🧹 **Switched ${switched} observed message(s) and rule(s) to removing reactions.**`;
+    if (skipped.length) content += `\n\n🔒 **Still observing, missing permissions:**\n${skipped.map((problem) => `• ${problem}`).join("\n")}`;
+    await interaction.editReply({ content: content.slice(0, 2000), components: [] });
+    return;
+  }
+
+  const row = messageStore.getGuild(guildId).find((message) => message.message_id === messageId);
+  if (!row || !row.observe) {
+    await interaction.editReply({ content: "ℹ️ This message is no longer being observed.", components: [] });
+    return;
+  }
+
+  const permissionProblem = await findChannelPermissionProblem(interaction, row.channel_id);
+  if (permissionProblem) {
+    await interaction.followUp({ content: `🔒 ${permissionProblem}.`, ephemeral: true });
+    return;
+  }
+
+  enforceTrackedMessage(row);
+  await interaction.editReply({ content: `🧹 **Now removing reactions on:**\n• ${row.message_url}`, components: [] });
+}
+
+// Store pending imports by the ID of the interaction that started them
+const pendingImports: Record<string, PendingImport> = {};
 
-      const activeCount = Object.keys(cleaningTasks).length;
-      let reply = `📋 **Tracked Messages** (${trackedMessages.length} total, ${activeCount} active):\n\n`;
-      
-      for (const row of trackedMessages) {
-        const isActive = cleaningTasks[row.message_url] ? "🟢" : "🔴";
-        const addedDate = new Date(row.added_at).toLocaleDateString();
-        
-        // Try to identify channel type from URL for better UX
-        let channelInfo = "";
-        const parsed = parseMessageUrl(row.message_url);
-        if (parsed) {
-          try {
-            const channel = await client.channels.fetch(parsed.channelId);
-            if (channel) {
-              const channelTypeEmoji: Record<number, string> = {
-                [ChannelType.GuildText]: "💬",
-                [ChannelType.GuildAnnouncement]: "📢",
-                [ChannelType.PublicThread]: "🧵",
-                [ChannelType.PrivateThread]: "🔒🧵",
-                [ChannelType.AnnouncementThread]: "📢🧵",
-              };
-              
-              channelInfo = ` ${channelTypeEmoji[channel.type] || "❓"}`;
-            }
-          } catch (e) {
-            // Ignore errors fetching channel info for display
-          }
+// Collect the guild's tracked messages and channel rules into an export
+function exportGuildConfiguration(guildId: string): CleaningExport {
+  const channelRuleRows = (getAllChannelRules.all() as ChannelRuleRow[]).filter((row) => row.guild_id === guildId);
+  return buildCleaningExport(guildId, channelRuleRows, getGuildWatchRules.all(guildId) as WatchRuleRow[], messageStore.getGuild(guildId));
+}
+
+// Check that a value is a list of strings, optionally matching a pattern
+function isStringList(value: unknown, pattern?: RegExp): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && (!pattern || pattern.test(item)));
+}
+
+// Check that a value is null or a whole number in a range
+function isOptionalInteger(value: unknown, min: number, max: number): value is number | null {
+  return value === null || (Number.isInteger(value) && (value as number) >= min && (value as number) <= max);
+}
+
+// Validate imported cleaning options, returns the problem or null
+function validateImportedOptions(options: unknown): string | null {
+  if (typeof options !== 'object' || options === null) return "options must be an object";
+  const value = options as Record<string, unknown>;
+
+  if (!['all', 'allow', 'deny'].includes(value.emojiFilterMode as string)) return "options.emojiFilterMode must be all, allow or deny";
+  if (!isStringList(value.emojiFilter)) return "options.emojiFilter must be a list of emojis";
+  if (!isStringList(value.exemptRoles, snowflakePattern)) return "options.exemptRoles must be a list of role IDs";
+  if (!isStringList(value.exemptUsers, snowflakePattern)) return "options.exemptUsers must be a list of user IDs";
+  if (!isStringList(value.targetUsers, snowflakePattern)) return "options.targetUsers must be a list of user IDs";
+  if (!isOptionalInteger(value.maxDistinctEmojis, 1, 1000)) return "options.maxDistinctEmojis must be a positive number or null";
+  if (!isOptionalInteger(value.maxPerEmoji, 1, 100_000)) return "options.maxPerEmoji must be a positive number or null";
+  if (!isOptionalInteger(value.graceSeconds, 1, 86_400)) return "options.graceSeconds must be between 1 and 86400 or null";
+  // Missing from files exported before observe mode existed
+  if (value.observe !== undefined && typeof value.observe !== 'boolean') return "options.observe must be true or false";
+  return null;
+}
+
+// Validate an imported schedule, returns the problem or null
+function validateImportedSchedule(schedule: unknown): string | null {
+  if (typeof schedule !== 'object' || schedule === null) return "schedule must be an object";
+  const value = schedule as Record<string, unknown>;
+
+  if (value.expiresAt !== null && (typeof value.expiresAt !== 'string' || isNaN(Date.parse(value.expiresAt)))) return "schedule.expiresAt must be a date or null";
+  if (!isOptionalInteger(value.windowStart, 0, 1439) || !isOptionalInteger(value.windowEnd, 0, 1439)) return "schedule window times must be minutes since midnight or null";
+  if ((value.windowStart === null) !== (value.windowEnd === null)) return "schedule.windowStart and schedule.windowEnd must be set together";
+  if (!Array.isArray(value.windowDays) || !value.windowDays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) return "schedule.windowDays must be a list of weekdays from 0 to 6";
+  return null;
+}
+
+// Validate an uploaded export for this guild, returns the list of problems or the export
+function validateImport(data: unknown, guildId: string): { data: CleaningExport } | { errors: string[] } {
+  if (typeof data !== 'object' || data === null) return { errors: ["The file is not a reaction cleaning export"] };
+  const value = data as Record<string, unknown>;
+
+  if (value.version !== exportFormatVersion) return { errors: [`Unsupported export version ${value.version}, expected ${exportFormatVersion}`] };
+  if (!Array.isArray(value.channelRules) || !Array.isArray(value.trackedMessages)) return { errors: ["The export must contain channelRules and trackedMessages lists"] };
+
+  const errors: string[] = [];
+  const seenChannels = new Set<string>();
+  const seenMessages = new Set<string>();
+
+  for (const [index, rule] of (value.channelRules as Record<string, unknown>[]).entries()) {
+    const label = `channelRules[${index}]`;
+    if (typeof rule?.channelId !== 'string' || !snowflakePattern.test(rule.channelId)) {
+      errors.push(`${label}: channelId must be a channel ID`);
+      continue;
+    }
+    if (seenChannels.has(rule.channelId)) errors.push(`${label}: channel ${rule.channelId} is listed twice`);
+    seenChannels.add(rule.channelId);
+
+    // Channels of another server can't be told apart by ID alone, so check the cache
+    const channel = client.channels.cache.get(rule.channelId);
+    if (channel && (!('guildId' in channel) || channel.guildId !== guildId)) errors.push(`${label}: channel ${rule.channelId} belongs to a different server`);
+    if (rule.scope !== 'all' && rule.scope !== 'new') errors.push(`${label}: scope must be all or new`);
+    const optionsError = validateImportedOptions(rule.options);
+    if (optionsError) errors.push(`${label}: ${optionsError}`);
+  }
+
+  value.watchRules ??= [];
+  if (!Array.isArray(value.watchRules)) return { errors: ["watchRules must be a list"] };
+
+  for (const [index, rule] of (value.watchRules as Record<string, unknown>[]).entries()) {
+    const label = `watchRules[${index}]`;
+    if (typeof rule?.channelId !== 'string' || !snowflakePattern.test(rule.channelId)) {
+      errors.push(`${label}: channelId must be a channel ID`);
+      continue;
+    }
+
+    const channel = client.channels.cache.get(rule.channelId);
+    if (channel && (!('guildId' in channel) || channel.guildId !== guildId)) errors.push(`${label}: channel ${rule.channelId} belongs to a different server`);
+    for (const key of ['authorId', 'webhookId', 'roleId']) {
+      if (rule[key] !== null && (typeof rule[key] !== 'string' || !snowflakePattern.test(rule[key] as string))) errors.push(`${label}: ${key} must be an ID or null`);
+    }
+    if (rule.contentPattern !== null) {
+      if (typeof rule.contentPattern !== 'string' || rule.contentPattern.length > maxContentPatternLength) {
+        errors.push(`${label}: contentPattern must be a regular expression of up to ${maxContentPatternLength} characters or null`);
+      } else {
+        try {
+          new RegExp(rule.contentPattern, 'i');
+        } catch {
+          errors.push(`${label}: contentPattern is not a valid regular expression`);
         }
-        
-        reply += `${isActive}${channelInfo} ${row.message_url} (added ${addedDate})\n`;
       }
+    }
+    if (!rule.authorId && !rule.webhookId && !rule.roleId && !rule.contentPattern) errors.push(`${label}: needs at least one of authorId, webhookId, roleId or contentPattern`);
+    if (!isOptionalInteger(rule.maxTracked, 1, 100_000)) errors.push(`${label}: maxTracked must be a positive number or null`);
+    const optionsError = validateImportedOptions(rule.options);
+    if (optionsError) errors.push(`${label}: ${optionsError}`);
+  }
 
-      if (activeCount !== trackedMessages.length) {
-        reply += `\n*🟢 = Active cleaning | 🔴 = Not running*\n*💬 = Text Channel | 📢 = Announcement | 🧵 = Thread | 🔒 = Private*`;
-      }
+  for (const [index, message] of (value.trackedMessages as Record<string, unknown>[]).entries()) {
+    const label = `trackedMessages[${index}]`;
+    const parsed = typeof message?.messageUrl === 'string' ? parseMessageUrl(message.messageUrl) : null;
+    if (!parsed) {
+      errors.push(`${label}: messageUrl must be a Discord message URL`);
+      continue;
+    }
+    if (parsed.guildId !== guildId) errors.push(`${label}: ${message.messageUrl} belongs to a different server`);
+    if (seenMessages.has(parsed.messageId)) errors.push(`${label}: ${message.messageUrl} is listed twice`);
+    seenMessages.add(parsed.messageId);
+
+    if (message.status !== 'active' && message.status !== 'paused') errors.push(`${label}: status must be active or paused`);
+    const optionsError = validateImportedOptions(message.options);
+    if (optionsError) errors.push(`${label}: ${optionsError}`);
+    const scheduleError = validateImportedSchedule(message.schedule);
+    if (scheduleError) errors.push(`${label}: ${scheduleError}`);
+    message.seedReactions ??= [];
+    if (!isStringList(message.seedReactions) || message.seedReactions.length > maxSeedReactions
+      || message.seedReactions.some((seed) => parseSeedReactions(formatSeedReaction(seed)).seeds[0] !== seed)) {
+      errors.push(`${label}: seedReactions must be a list of up to ${maxSeedReactions} emojis`);
+    }
+  }
+
+  return errors.length ? { errors } : { data: value as unknown as CleaningExport };
+}
+
+// Compare an import with the guild's current configuration
+function diffImport(pending: PendingImport): ImportDiff {
+  const diff: ImportDiff = { added: [], changed: [], unchanged: [], removed: [] };
+  const current = exportGuildConfiguration(pending.guildId);
+
+  const currentRules = new Map(current.channelRules.map((rule) => [rule.channelId, JSON.stringify(rule)]));
+  for (const rule of pending.data.channelRules) {
+    const label = `Channel rule in <#${rule.channelId}>`;
+    const existing = currentRules.get(rule.channelId);
+    const entry = JSON.stringify({ channelId: rule.channelId, scope: rule.scope, options: normalizeImportedOptions(rule.options) });
+    if (existing === undefined) diff.added.push(label);
+    else if (existing !== entry) diff.changed.push(label);
+    else diff.unchanged.push(label);
+    currentRules.delete(rule.channelId);
+  }
+  if (pending.replace) diff.removed.push(...[...currentRules.keys()].map((channelId) => `Channel rule in <#${channelId}>`));
+
+  // Watch rules have no stable key across bots, identical rules count as the same rule
+  const currentWatchRules = current.watchRules.map((rule) => JSON.stringify(rule));
+  for (const rule of pending.data.watchRules) {
+    const label = `Watch rule in <#${rule.channelId}>`;
+    const index = currentWatchRules.indexOf(JSON.stringify(normalizeImportedWatchRule(rule)));
+    if (index === -1) {
+      diff.added.push(label);
+    } else {
+      diff.unchanged.push(label);
+      currentWatchRules.splice(index, 1);
+    }
+  }
+  if (pending.replace) diff.removed.push(...currentWatchRules.map((rule) => `Watch rule in <#${(JSON.parse(rule) as ExportedWatchRule).channelId}>`));
+
+  // Messages are matched by ID since the same message can be linked in several ways
+  const currentMessages = new Map(current.trackedMessages.map((message) => [parseMessageUrl(message.messageUrl)?.messageId, message]));
+  for (const message of pending.data.trackedMessages) {
+    const messageId = parseMessageUrl(message.messageUrl)?.messageId;
+    const existing = currentMessages.get(messageId);
+    if (!existing) diff.added.push(message.messageUrl);
+    else if (JSON.stringify({ ...existing, messageUrl: "" }) !== JSON.stringify({ ...normalizeImportedMessage(message), messageUrl: "" })) diff.changed.push(existing.messageUrl);
+    else diff.unchanged.push(existing.messageUrl);
+    currentMessages.delete(messageId);
+  }
+  if (pending.replace) diff.removed.push(...[...currentMessages.values()].map((message) => message.messageUrl));
+
+  return diff;
+}
+
+// Bring imported options into the same shape and key order as exported ones, so they compare equal
+function normalizeImportedOptions(options: CleaningOptions): CleaningOptions {
+  return rowToCleaningOptions(cleaningOptionsToRow(options) as CleaningOptionColumns);
+}
+
+// Bring an imported watch rule into the same shape and key order as an exported one
+function normalizeImportedWatchRule(rule: ExportedWatchRule): ExportedWatchRule {
+  return {
+    channelId: rule.channelId,
+    authorId: rule.authorId,
+    webhookId: rule.webhookId,
+    roleId: rule.roleId,
+    contentPattern: rule.contentPattern,
+    maxTracked: rule.maxTracked,
+    options: normalizeImportedOptions(rule.options),
+  };
+}
+
+// Bring an imported tracked message into the same shape and key order as an exported one
+function normalizeImportedMessage(message: ExportedTrackedMessage): ExportedTrackedMessage {
+  return {
+    messageUrl: message.messageUrl,
+    status: message.status,
+    options: normalizeImportedOptions(message.options),
+    schedule: {
+      expiresAt: message.schedule.expiresAt !== null ? new Date(message.schedule.expiresAt).toISOString() : null,
+      windowStart: message.schedule.windowStart,
+      windowEnd: message.schedule.windowEnd,
+      windowDays: message.schedule.windowDays,
+    },
+    seedReactions: message.seedReactions,
+  };
+}
+
+// Describe an import diff, limited to Discord's message length
+function describeImportDiff(diff: ImportDiff, replace: boolean): string {
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return "";
+    const shown = items.slice(0, 10).map((item) => `• ${item}`).join("\n");
+    return `${title} (${items.length}):**\n${shown}${items.length > 10 ? `\n• …and ${items.length - 10} more` : ""}\n\n`;
+  };
+
+  let reply = "📥 **Import preview, nothing has been changed yet**\n\n";
+  reply += section("➕ **Added", diff.added);
+  reply += section("✏️ **Changed", diff.changed);
+  if (replace) reply += section("🗑️ **Removed", diff.removed);
+  if (diff.unchanged.length) reply += `ℹ️ ${diff.unchanged.length} unchanged\n\n`;
+  if (!diff.added.length && !diff.changed.length && !diff.removed.length) reply += "Nothing to change.";
+  return reply.trim();
+}
+
+// Channels of an import that the bot can't find in the guild. IDs alone don't say which server a channel is in.
+async function findForeignImportChannels(data: CleaningExport, guildId: string): Promise<string[]> {
+  const channelIds = new Set([
+    ...data.channelRules.map((rule) => rule.channelId),
+    ...data.watchRules.map((rule) => rule.channelId),
+    ...data.trackedMessages.map((message) => parseMessageUrl(message.messageUrl)!.channelId),
+  ]);
+
+  const foreign: string[] = [];
+  for (const channelId of channelIds) {
+    const channel = await client.channels.fetch(channelId).catch(() => null);
+    if (!channel || channel.isDMBased() || channel.guildId !== guildId) foreign.push(channelId);
+  }
+  return foreign;
+}
+
+// Write an import to the database in one transaction, then start or stop the affected cleaning.
+// Returns the tracked messages that were saved but could not be restarted.
+async function applyImport(pending: PendingImport): Promise<string[]> {
+  const { guildId, data } = pending;
+
+  const foreignChannels = await findForeignImportChannels(data, guildId);
+  if (foreignChannels.length) {
+    throw new Error(`these channels are not in this server or the bot can't see them: ${foreignChannels.join(", ")}`);
+  }
+
+  const current = exportGuildConfiguration(guildId);
+  const importedMessageIds = new Set(data.trackedMessages.map((message) => parseMessageUrl(message.messageUrl)?.messageId));
+  const importedChannels = new Set(data.channelRules.map((rule) => rule.channelId));
+
+  const removedMessages = pending.replace ? current.trackedMessages.filter((message) => !importedMessageIds.has(parseMessageUrl(message.messageUrl)?.messageId)) : [];
+  const removedRules = pending.replace ? current.channelRules.filter((rule) => !importedChannels.has(rule.channelId)) : [];
+
+  // Identical watch rules are kept, the others are added, and with replace the leftovers are removed
+  const unmatchedWatchRows = getGuildWatchRules.all(guildId) as WatchRuleRow[];
+  const addedWatchRules = data.watchRules.filter((rule) => {
+    const entry = JSON.stringify(normalizeImportedWatchRule(rule));
+    const index = unmatchedWatchRows.findIndex((row) => JSON.stringify(watchRuleToExport(row)) === entry);
+    if (index === -1) return true;
+    unmatchedWatchRows.splice(index, 1);
+    return false;
+  });
+  const removedWatchRows = pending.replace ? unmatchedWatchRows : [];
+
+  // Messages already tracked under a different link keep their stored URL
+  const currentUrls = new Map(current.trackedMessages.map((message) => [parseMessageUrl(message.messageUrl)?.messageId, message.messageUrl]));
+
+  const addedWatchRuleIds: number[] = [];
+  const writeAll = db.transaction(() => {
+    for (const message of removedMessages) messageStore.delete(message.messageUrl);
+    for (const rule of removedRules) deleteChannelRule.run(rule.channelId);
+    for (const row of removedWatchRows) {
+      deleteWatchRule.run(row.id);
+      messageStore.clearWatchRule(row.id);
+    }
 
-      await interaction.reply(ephemeralReply(reply));
+    for (const rule of addedWatchRules) {
+      const dbResult = insertWatchRule.run({
+        guild_id: guildId,
+        channel_id: rule.channelId,
+        author_id: rule.authorId,
+        webhook_id: rule.webhookId,
+        role_id: rule.roleId,
+        content_pattern: rule.contentPattern,
+        max_tracked: rule.maxTracked,
+        ...cleaningOptionsToRow(rule.options),
+      }) as DatabaseRunResult;
+      addedWatchRuleIds.push(Number(dbResult.lastInsertRowid));
     }
-    else if (interaction.commandName === "ping") {
-      const start = Date.now();
-      await interaction.reply(ephemeralReply("Pinging..."));
-      const end = Date.now();
-      
-      await interaction.editReply({
-        content: `🏓 Pong! Latency: ${end - start}ms | WebSocket: ${Math.round(client.ws.ping)}ms`
+
+    for (const rule of data.channelRules) {
+      upsertChannelRule.run({ channel_id: rule.channelId, guild_id: guildId, scope: rule.scope, ...cleaningOptionsToRow(rule.options) });
+    }
+
+    for (const message of data.trackedMessages) {
+      const parsed = parseMessageUrl(message.messageUrl)!;
+      const messageUrl = currentUrls.get(parsed.messageId) ?? message.messageUrl;
+      messageStore.upsert({
+        message_url: messageUrl,
+        guild_id: guildId,
+        channel_id: parsed.channelId,
+        message_id: parsed.messageId,
+        ...cleaningOptionsToRow(message.options),
+        ...cleaningScheduleToRow({ ...message.schedule, expiresAt: message.schedule.expiresAt !== null ? Date.parse(message.schedule.expiresAt) : null }),
       });
+      messageStore.setSeedReactions(messageUrl, message.seedReactions);
+      if (message.status === 'paused') messageStore.setStatus(messageUrl, 'paused');
     }
-    else if (interaction.commandName === "source-code") {
-      const isEphemeral = interaction.options.getBoolean("ephemeral") ?? true; // Default to true if not specified
-      await interaction.reply(ephemeralReply("The source code for this bot can be found [here](<https://github.com/giralal/Reaction-Cleaner-Bot>)", isEphemeral));
+  });
+  writeAll();
+
+  for (const message of removedMessages) stopCleaning(message.messageUrl);
+  for (const rule of removedRules) delete channelRules[rule.channelId];
+  for (const row of removedWatchRows) delete watchRules[row.id];
+  for (const ruleId of addedWatchRuleIds) {
+    watchRules[ruleId] = rowToWatchRule(getWatchRule.get(ruleId) as WatchRuleRow);
+  }
+  for (const rule of data.channelRules) {
+    channelRules[rule.channelId] = rowToChannelRule(getChannelRule.get(rule.channelId) as ChannelRuleRow);
+  }
+
+  // Restart every imported message so it picks up its new options and status. The import is saved by now,
+  // so a message that fails to restart is reported instead of failing the whole import.
+  const restartFailures: string[] = [];
+  for (const message of data.trackedMessages) {
+    const messageUrl = currentUrls.get(parseMessageUrl(message.messageUrl)!.messageId) ?? message.messageUrl;
+    try {
+      stopCleaning(messageUrl);
+
+      const row = messageStore.get(messageUrl)!;
+      if (row.status !== 'active') continue;
+      if (isExpired(rowToCleaningSchedule(row))) {
+        expireCleaning(row);
+        continue;
+      }
+      await restoreCleaningTask(row);
+    } catch (error) {
+      console.error(`❌ Failed to restart imported message ${messageUrl}:`, error);
+      restartFailures.push(`${messageUrl}: ${errorMessage(error)}`);
     }
+  }
+
+  console.log(`📥 Imported ${data.channelRules.length} channel rules, ${data.watchRules.length} watch rules and ${data.trackedMessages.length} tracked messages into guild ${guildId}`);
+  return restartFailures;
+}
+
+// Handle the apply and cancel buttons of an import preview
+async function handleImportButton(interaction: ButtonInteraction): Promise<void> {
+  const [, action, importId] = interaction.customId.split(":");
+  const pending = pendingImports[importId];
+
+  if (!pending || pending.expiresAt < Date.now()) {
+    delete pendingImports[importId];
+    await interaction.update({ content: "⌛ This import preview has expired, run `/import-reaction-cleaning` again.", components: [] });
+    return;
+  }
+
+  if (interaction.user.id !== pending.userId) {
+    await interaction.reply({ content: "Only the person who started the import can confirm it.", ephemeral: true });
+    return;
+  }
 
+  delete pendingImports[importId];
+
+  if (action === "cancel") {
+    await interaction.update({ content: "❌ Import cancelled, nothing was changed.", components: [] });
+    return;
+  }
+
+  // Restarting the imported messages refetches them, which can take longer than the 3 second reply window
+  await interaction.update({ content: "⏳ Importing...", components: [] });
+
+  let restartFailures: string[];
+  try {
+    restartFailures = await applyImport(pending);
+  } catch (error) {
+    console.error("❌ Import failed:", error);
+    await interaction.editReply({ content: `⚠️ Import failed, nothing was changed: ${errorMessage(error)}` });
+    return;
+  }
+
+  let reply = `✅ **Imported ${pending.data.channelRules.length} channel rule(s), ${pending.data.watchRules.length} watch rule(s) and ${pending.data.trackedMessages.length} tracked message(s).**`;
+  if (restartFailures.length) {
+    reply += `\n\n⚠️ **Saved but could not be restarted, use \`/resume-reaction-cleaning\` to retry:**\n${restartFailures.map((failure) => `• ${failure}`).join("\n")}`;
+  }
+  await interaction.editReply({ content: reply.slice(0, 2000) });
+}
+
+// Stop tracking messages as soon as they are deleted instead of failing until the next restart
+client.on("messageDelete", (message) => {
+  for (const row of messageStore.getByMessageId(message.id)) {
+    untrackMessage(row, "The message was deleted");
+  }
+});
+
+client.on("messageDeleteBulk", (messages) => {
+  for (const messageId of messages.keys()) {
+    for (const row of messageStore.getByMessageId(messageId)) {
+      untrackMessage(row, "The message was deleted");
+    }
+  }
+});
+
+client.on("channelDelete", (channel) => {
+  untrackChannel(channel.id, "The channel was deleted");
+});
+
+client.on("threadDelete", (thread) => {
+  untrackChannel(thread.id, "The thread was deleted");
+});
+
+// Reactions can't be removed in archived or locked threads, so suspend their messages until the thread reopens
+client.on("threadUpdate", async (oldThread, newThread) => {
+  const wasClosed = oldThread.archived || oldThread.locked;
+  const isClosed = newThread.archived || newThread.locked;
+  if (wasClosed === isClosed) return;
+
+  const rows = messageStore.getGuild(newThread.guildId).filter((row) => row.channel_id === newThread.id);
+  if (rows.length === 0) return;
+
+  if (!isClosed) {
+    for (const row of rows.filter((row) => row.status === 'suspended')) {
+      await resumeIfUnsuspended(row).catch((error) => console.error(`❌ Failed to resume ${row.message_url}:`, error));
+    }
+    return;
+  }
+
+  const openRows = rows.filter((row) => row.status === 'active' || row.status === 'errored');
+  if (openRows.length === 0) return;
+
+  // A locked thread was closed by a moderator on purpose, only plain archiving is undone
+  const settings = getGuildSettings.get(newThread.guildId) as GuildSettingsRow | undefined;
+  if (settings?.unarchive_threads && newThread.archived && !newThread.locked) {
+    try {
+      await newThread.setArchived(false, "Reaction cleaning is enabled on a message in this thread");
+      console.log(`📂 Unarchived thread ${newThread.id} to keep cleaning its tracked messages`);
+      return;
+    } catch (error) {
+      console.error(`❌ Failed to unarchive thread ${newThread.id}:`, error);
+    }
+  }
+
+  const reason = newThread.locked ? "The thread was locked" : "The thread was archived";
+  for (const row of openRows) suspendCleaning(row, reason);
+});
+
+// Keep the configuration when the bot is removed from a server, it is resumed if the bot is added back
+client.on("guildDelete", (guild) => {
+  // Outages also emit guildDelete, the server comes back on its own
+  if (!guild.available) return;
+
+  for (const row of messageStore.getGuild(guild.id)) {
+    if (row.status === 'active' || row.status === 'errored') suspendCleaning(row, "The bot was removed from the server");
+  }
+
+  for (const rule of Object.values(channelRules).filter((rule) => rule.guildId === guild.id)) {
+    delete channelRules[rule.channelId];
+  }
+  for (const rule of Object.values(watchRules).filter((rule) => rule.guildId === guild.id)) {
+    delete watchRules[rule.id];
+  }
+
+  if (loadCommandRegistrations().has(guild.id)) {
+    removeGuildCommands(guild.id).catch((error) => console.error(`❌ Failed to remove commands from guild ${guild.id}:`, error));
+  }
+});
+
+client.on("guildCreate", async (guild) => {
+  console.log(`📥 Joined guild ${guild.name} (${guild.id})`);
+  if (wantsGuildCommands(guild.id)) await registerGuildCommands(guild.id);
+
+  for (const row of messageStore.getGuild(guild.id)) {
+    if (row.status === 'suspended') await resumeIfUnsuspended(row).catch((error) => console.error(`❌ Failed to resume ${row.message_url}:`, error));
+  }
+
+  for (const row of (getAllChannelRules.all() as ChannelRuleRow[]).filter((row) => row.guild_id === guild.id)) {
+    channelRules[row.channel_id] = rowToChannelRule(row);
+  }
+  for (const row of getGuildWatchRules.all(guild.id) as WatchRuleRow[]) {
+    watchRules[row.id] = rowToWatchRule(row);
+  }
+});
+
+// Track new messages that match a watch rule of their channel
+client.on("messageCreate", async (message) => {
+  if (!message.inGuild() || message.author.id === client.user?.id) return;
+
+  const rule = Object.values(watchRules).find((rule) => rule.guildId === message.guildId && matchesWatchRule(rule, message));
+  if (!rule || messageStore.getByMessageId(message.id).length > 0) return;
+
+  try {
+    await trackWatchedMessage(rule, message);
+  } catch (error) {
+    console.error(`❌ Watch rule #${rule.id} failed to track ${message.url}:`, error);
+  }
+});
+
+// Events missed while the gateway was disconnected are not replayed, so sweep after resuming
+client.on("shardResume", () => {
+  console.log("🔌 Gateway connection resumed, sweeping tracked messages...");
+  sweepAllReactions().catch((error) => console.error("❌ Sweep after resume failed:", error));
+});
+
+// What command handlers see of the running cleaner
+const cleanerRuntime: CleanerRuntime = {
+  cleaningTasks,
+  channelRules,
+  watchRules,
+  pendingAuditLog,
+  pendingImports,
+  startCleaning,
+  stopCleaning,
+  pauseCleaning,
+  resumeCleaning,
+  sweepReactions,
+  withdrawSeedReactions,
+  findChannelPermissionProblem,
+  findReportChannelProblem,
+  buildTrackedMessageList,
+  buildObservationReport,
+  buildCleaningReport,
+  sendCleaningReport,
+  exportGuildConfiguration,
+  validateImport,
+  diffImport,
+  describeImportDiff,
+};
+
+client.on("interactionCreate", async (interaction) => {
+  if (interaction.isAutocomplete()) {
+    if (interaction.commandName !== "disable-reaction-cleaning" && interaction.commandName !== "reaction-votes") return;
+    await autocompleteTrackedMessages(interaction).catch((error) => console.error("❌ Autocomplete failed:", error));
+    return;
+  }
+
+  if (interaction.isMessageContextMenuCommand()) {
+    if (interaction.commandName !== "Toggle reaction cleaning") return;
+    await toggleMessageCleaning(interaction).catch((error) => console.error("❌ Error toggling reaction cleaning:", error));
+    return;
+  }
+
+  if (interaction.isButton()) {
+    if (interaction.customId.startsWith("list:")) {
+      await handleListButton(interaction).catch((error) => console.error("❌ Error handling list button:", error));
+    } else if (interaction.customId.startsWith("observe:")) {
+      await handleObserveButton(interaction).catch((error) => console.error("❌ Error handling observe button:", error));
+    } else if (interaction.customId.startsWith("import:")) {
+      await handleImportButton(interaction).catch((error) => console.error("❌ Error handling import button:", error));
+    }
+    return;
+  }
+
+  if (!interaction.isChatInputCommand()) return;
+
+  // Every command works on the configuration of the server it was run in
+  if (!interaction.inGuild()) {
+    await interaction.reply(ephemeralReply("This command can only be used in a server."));
+    return;
+  }
+  const guildId = interaction.guildId;
+
+  // Discord hides the commands from members without the default permissions, but server admins can override that
+  if (interaction.commandName === "reaction-cleaner-settings") {
+    if (!interaction.memberPermissions.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.reply(ephemeralReply("🚫 You need the Manage Server permission to change the bot's settings."));
+      return;
+    }
+  } else if (!publicCommands.includes(interaction.commandName) && !canManageCleaning(interaction)) {
+    await interaction.reply(ephemeralReply(missingManagerMessage));
+    return;
+  }
+
+  const handler = commandHandlers[interaction.commandName];
+  if (!handler) return;
+
+  try {
+    await handler(interaction, { guildId, client, db, store: messageStore, statements, runtime: cleanerRuntime });
   } catch (error) {
     console.error("❌ Error handling interaction:", error);
     
@@ -605,6 +2613,13 @@ process.on('SIGINT', () => {
   
   // Stop all cleaning tasks
   Object.keys(cleaningTasks).forEach(url => stopCleaning(url));
+  if (sweepInterval) clearInterval(sweepInterval);
+  if (auditLogFlushInterval) clearInterval(auditLogFlushInterval);
+  if (scheduleCheckInterval) clearInterval(scheduleCheckInterval);
+  if (pendingRemovalInterval) clearInterval(pendingRemovalInterval);
+  if (reportCheckInterval) clearInterval(reportCheckInterval);
+  if (auditPruneInterval) clearInterval(auditPruneInterval);
+  httpServer?.close();
   
   // Close database connection
   if (db) {
@@ -620,6 +2635,13 @@ process.on('SIGTERM', () => {
   
   // Stop all cleaning tasks
   Object.keys(cleaningTasks).forEach(url => stopCleaning(url));
+  if (sweepInterval) clearInterval(sweepInterval);
+  if (auditLogFlushInterval) clearInterval(auditLogFlushInterval);
+  if (scheduleCheckInterval) clearInterval(scheduleCheckInterval);
+  if (pendingRemovalInterval) clearInterval(pendingRemovalInterval);
+  if (reportCheckInterval) clearInterval(reportCheckInterval);
+  if (auditPruneInterval) clearInterval(auditPruneInterval);
+  httpServer?.close();
   
   // Close database connection
   if (db) {
@@ -630,4 +2652,7 @@ process.on('SIGTERM', () => {
   process.exit(0);
 });
 
+// Started before logging in so health checks can report a gateway that never connects
+startHttpServer();
+
 client.login(process.env.DISCORD_TOKEN as string);
\ No newline at end of file
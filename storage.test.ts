@@ -0,0 +1,85 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { runMigrations } from "./database";
+import { cleaningOptionsToRow, cleaningScheduleToRow, defaultCleaningOptions, defaultCleaningSchedule } from "./cleaning";
+import { TrackedMessageInput, TrackedMessageStore, createMemoryTrackedMessageStore, createSqliteTrackedMessageStore } from "./storage";
+
+function trackedMessage(messageId: string, guildId = "100000000000000001"): TrackedMessageInput {
+  return {
+    message_url: `https://discord.com/channels/${guildId}/200000000000000001/${messageId}`,
+    guild_id: guildId,
+    channel_id: "200000000000000001",
+    message_id: messageId,
+    ...cleaningOptionsToRow(defaultCleaningOptions),
+    ...cleaningScheduleToRow(defaultCleaningSchedule),
+  };
+}
+
+// Both stores have to behave the same, the memory store stands in for the SQLite one in tests
+const stores: Array<[string, () => TrackedMessageStore]> = [
+  ["SQLite", () => {
+    const db = new Database(":memory:");
+    runMigrations(db);
+    return createSqliteTrackedMessageStore(db);
+  }],
+  ["memory", createMemoryTrackedMessageStore],
+];
+
+for (const [name, createStore] of stores) {
+  describe(`${name} tracked message store`, () => {
+    let store: TrackedMessageStore;
+    beforeEach(() => { store = createStore(); });
+
+    it("stores and lists messages by guild and message ID", () => {
+      store.upsert(trackedMessage("300000000000000001"));
+      store.upsert(trackedMessage("300000000000000002", "100000000000000002"));
+
+      assert.equal(store.getAll().length, 2);
+      assert.deepEqual(store.getGuild("100000000000000001").map((row) => row.message_id), ["300000000000000001"]);
+      assert.equal(store.getByMessageId("300000000000000002")[0].guild_id, "100000000000000002");
+      assert.equal(store.get(trackedMessage("300000000000000001").message_url)?.status, 'active');
+    });
+
+    it("keeps seed reactions and watch rule but reactivates on upsert", () => {
+      const input = trackedMessage("300000000000000001");
+      store.upsert(input);
+      store.setSeedReactions(input.message_url, ["👍"]);
+      store.setErrored(input.message_url, 5, "Missing Access");
+
+      store.upsert({ ...input, observe: 1 });
+      const row = store.get(input.message_url)!;
+      assert.equal(row.status, 'active');
+      assert.equal(row.failure_count, 0);
+      assert.equal(row.last_error, null);
+      assert.equal(row.seed_reactions, '["👍"]');
+      assert.equal(row.observe, 1);
+    });
+
+    it("hands out copies of its rows", () => {
+      const input = trackedMessage("300000000000000001");
+      store.upsert(input);
+      store.get(input.message_url)!.status = 'paused';
+      assert.equal(store.get(input.message_url)!.status, 'active');
+    });
+
+    it("counts by status and deletes a guild", () => {
+      store.upsert(trackedMessage("300000000000000001"));
+      store.upsert(trackedMessage("300000000000000002"));
+      store.setStatus(trackedMessage("300000000000000002").message_url, 'paused');
+
+      assert.deepEqual(store.countByStatus(), { active: 1, paused: 1 });
+      store.deleteGuild("100000000000000001");
+      assert.equal(store.getAll().length, 0);
+    });
+
+    it("finds expired messages", () => {
+      const input = { ...trackedMessage("300000000000000001"), expires_at: "2020-01-01 00:00:00" };
+      store.upsert(input);
+      assert.equal(store.getExpired("2021-01-01 00:00:00").length, 1);
+
+      store.setStatus(input.message_url, 'expired');
+      assert.equal(store.getExpired("2021-01-01 00:00:00").length, 0);
+    });
+  });
+}
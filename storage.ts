@@ -0,0 +1,190 @@
+import Database from "better-sqlite3";
+import { CleaningOptionColumns } from "./database";
+
+// Define the database row type
+export interface TrackedMessage extends CleaningOptionColumns {
+  message_url: string;
+  guild_id: string | null; // Only null for rows whose URL could not be parsed when the column was added
+  channel_id: string;
+  message_id: string;
+  added_at: string;
+  status: TrackedMessageStatus;
+  last_error: string | null;
+  failure_count: number;
+  expires_at: string | null;
+  window_start: number | null;
+  window_end: number | null;
+  window_days: string; // JSON array of UTC weekdays
+  watch_rule_id: number | null; // Set when the message was tracked automatically by a watch rule
+  seed_reactions: string; // JSON array of emojis the bot reacts with, custom emojis as name:id
+}
+
+// Whether a tracked message is being cleaned, was paused by a moderator, was suspended after failing
+// too many times in a row, reached its expiry time, or is waiting for its thread or server to come back
+export type TrackedMessageStatus = 'active' | 'paused' | 'errored' | 'expired' | 'suspended';
+
+// Schedule columns of a tracked message
+export type TrackedMessageScheduleColumns = Pick<TrackedMessage, 'expires_at' | 'window_start' | 'window_end' | 'window_days'>;
+
+// What enabling a message stores. Its seed reactions and watch rule are kept when it was tracked before.
+export type TrackedMessageInput = Pick<TrackedMessage, 'message_url' | 'guild_id' | 'channel_id' | 'message_id'> & CleaningOptionColumns & TrackedMessageScheduleColumns;
+
+// Persistence of tracked messages. Lists come back in the order the messages were first tracked.
+export interface TrackedMessageStore {
+  // Enabling a message that errored before replaces its options and makes it active again
+  upsert(message: TrackedMessageInput): void;
+  get(messageUrl: string): TrackedMessage | undefined;
+  getByMessageId(messageId: string): TrackedMessage[];
+  getAll(): TrackedMessage[];
+  getGuild(guildId: string): TrackedMessage[];
+  getByWatchRule(watchRuleId: number): TrackedMessage[]; // Oldest first
+  getExpired(now: string): TrackedMessage[]; // Messages past their expiry time that aren't marked expired yet
+  countByStatus(): Partial<Record<TrackedMessageStatus, number>>;
+  updateOptions(messageUrl: string, options: CleaningOptionColumns): void;
+  updateSchedule(messageUrl: string, schedule: TrackedMessageScheduleColumns): void;
+  setSeedReactions(messageUrl: string, seedReactions: string[]): void;
+  setWatchRule(messageUrl: string, watchRuleId: number | null): void;
+  clearWatchRule(watchRuleId: number): void; // Keeps the messages, they just no longer belong to the rule
+  setStatus(messageUrl: string, status: TrackedMessageStatus): void; // Also resets the failure count
+  setFailure(messageUrl: string, failureCount: number, lastError: string | null): void;
+  setErrored(messageUrl: string, failureCount: number, lastError: string): void;
+  setSuspended(messageUrl: string, reason: string): void;
+  delete(messageUrl: string): void;
+  deleteGuild(guildId: string): void;
+}
+
+// Store tracked messages in the tracked_messages table. Runs inside any transaction open on the database.
+export function createSqliteTrackedMessageStore(db: Database.Database): TrackedMessageStore {
+  const upsertMessage = db.prepare(`
+    INSERT INTO tracked_messages (message_url, guild_id, channel_id, message_id, emoji_filter_mode, emoji_filter, exempt_roles, exempt_users, target_users, max_distinct_emojis, max_per_emoji, grace_seconds, observe, expires_at, window_start, window_end, window_days)
+    VALUES (@message_url, @guild_id, @channel_id, @message_id, @emoji_filter_mode, @emoji_filter, @exempt_roles, @exempt_users, @target_users, @max_distinct_emojis, @max_per_emoji, @grace_seconds, @observe, @expires_at, @window_start, @window_end, @window_days)
+    ON CONFLICT(message_url) DO UPDATE SET
+      emoji_filter_mode = excluded.emoji_filter_mode, emoji_filter = excluded.emoji_filter,
+      exempt_roles = excluded.exempt_roles, exempt_users = excluded.exempt_users, target_users = excluded.target_users,
+      max_distinct_emojis = excluded.max_distinct_emojis, max_per_emoji = excluded.max_per_emoji, grace_seconds = excluded.grace_seconds,
+      observe = excluded.observe, expires_at = excluded.expires_at, window_start = excluded.window_start, window_end = excluded.window_end, window_days = excluded.window_days,
+      status = 'active', last_error = NULL, failure_count = 0
+  `);
+  const getMessage = db.prepare("SELECT * FROM tracked_messages WHERE message_url = ?");
+  const getMessagesByMessageId = db.prepare("SELECT * FROM tracked_messages WHERE message_id = ?");
+  const getAllMessages = db.prepare("SELECT * FROM tracked_messages");
+  const getGuildMessages = db.prepare("SELECT * FROM tracked_messages WHERE guild_id = ?");
+  const getWatchRuleMessages = db.prepare("SELECT * FROM tracked_messages WHERE watch_rule_id = ? ORDER BY added_at, message_id");
+  const getExpiredMessages = db.prepare("SELECT * FROM tracked_messages WHERE status != 'expired' AND expires_at IS NOT NULL AND expires_at <= ?");
+  const countMessagesByStatus = db.prepare("SELECT status, COUNT(*) AS count FROM tracked_messages GROUP BY status");
+  const updateMessageOptions = db.prepare(`
+    UPDATE tracked_messages
+    SET emoji_filter_mode = @emoji_filter_mode, emoji_filter = @emoji_filter, exempt_roles = @exempt_roles, exempt_users = @exempt_users, target_users = @target_users,
+      max_distinct_emojis = @max_distinct_emojis, max_per_emoji = @max_per_emoji, grace_seconds = @grace_seconds, observe = @observe
+    WHERE message_url = @message_url
+  `);
+  const updateMessageSchedule = db.prepare(`
+    UPDATE tracked_messages
+    SET expires_at = @expires_at, window_start = @window_start, window_end = @window_end, window_days = @window_days
+    WHERE message_url = @message_url
+  `);
+  const setMessageSeedReactions = db.prepare("UPDATE tracked_messages SET seed_reactions = ? WHERE message_url = ?");
+  const setMessageWatchRule = db.prepare("UPDATE tracked_messages SET watch_rule_id = ? WHERE message_url = ?");
+  const clearWatchRuleMessages = db.prepare("UPDATE tracked_messages SET watch_rule_id = NULL WHERE watch_rule_id = ?");
+  const setMessageStatus = db.prepare("UPDATE tracked_messages SET status = ?, failure_count = 0, last_error = NULL WHERE message_url = ?");
+  const setMessageFailure = db.prepare("UPDATE tracked_messages SET failure_count = ?, last_error = ? WHERE message_url = ?");
+  const setMessageErrored = db.prepare("UPDATE tracked_messages SET status = 'errored', failure_count = ?, last_error = ? WHERE message_url = ?");
+  const setMessageSuspended = db.prepare("UPDATE tracked_messages SET status = 'suspended', failure_count = 0, last_error = ? WHERE message_url = ?");
+  const deleteMessage = db.prepare("DELETE FROM tracked_messages WHERE message_url = ?");
+  const clearGuildMessages = db.prepare("DELETE FROM tracked_messages WHERE guild_id = ?");
+
+  return {
+    upsert: (message) => { upsertMessage.run(message); },
+    get: (messageUrl) => getMessage.get(messageUrl) as TrackedMessage | undefined,
+    getByMessageId: (messageId) => getMessagesByMessageId.all(messageId) as TrackedMessage[],
+    getAll: () => getAllMessages.all() as TrackedMessage[],
+    getGuild: (guildId) => getGuildMessages.all(guildId) as TrackedMessage[],
+    getByWatchRule: (watchRuleId) => getWatchRuleMessages.all(watchRuleId) as TrackedMessage[],
+    getExpired: (now) => getExpiredMessages.all(now) as TrackedMessage[],
+    countByStatus: () => {
+      const counts: Partial<Record<TrackedMessageStatus, number>> = {};
+      for (const row of countMessagesByStatus.all() as { status: TrackedMessageStatus; count: number }[]) {
+        counts[row.status] = row.count;
+      }
+      return counts;
+    },
+    updateOptions: (messageUrl, options) => { updateMessageOptions.run({ message_url: messageUrl, ...options }); },
+    updateSchedule: (messageUrl, schedule) => { updateMessageSchedule.run({ message_url: messageUrl, ...schedule }); },
+    setSeedReactions: (messageUrl, seedReactions) => { setMessageSeedReactions.run(JSON.stringify(seedReactions), messageUrl); },
+    setWatchRule: (messageUrl, watchRuleId) => { setMessageWatchRule.run(watchRuleId, messageUrl); },
+    clearWatchRule: (watchRuleId) => { clearWatchRuleMessages.run(watchRuleId); },
+    setStatus: (messageUrl, status) => { setMessageStatus.run(status, messageUrl); },
+    setFailure: (messageUrl, failureCount, lastError) => { setMessageFailure.run(failureCount, lastError, messageUrl); },
+    setErrored: (messageUrl, failureCount, lastError) => { setMessageErrored.run(failureCount, lastError, messageUrl); },
+    setSuspended: (messageUrl, reason) => { setMessageSuspended.run(reason, messageUrl); },
+    delete: (messageUrl) => { deleteMessage.run(messageUrl); },
+    deleteGuild: (guildId) => { clearGuildMessages.run(guildId); },
+  };
+}
+
+// Format a date the way SQLite's CURRENT_TIMESTAMP stores it
+function currentTimestamp(): string {
+  return new Date().toISOString().replace('T', ' ').slice(0, 19);
+}
+
+// Keep tracked messages in memory only, for offline tests. storage.test.ts checks it behaves like the SQLite store, including
+// which columns an upsert keeps and that rows are handed out as copies.
+export function createMemoryTrackedMessageStore(): TrackedMessageStore {
+  const rows = new Map<string, TrackedMessage>();
+
+  const list = (filter: (row: TrackedMessage) => boolean) => [...rows.values()].filter(filter).map((row) => ({ ...row }));
+  const update = (messageUrl: string, changes: Partial<TrackedMessage>) => {
+    const row = rows.get(messageUrl);
+    if (row) rows.set(messageUrl, { ...row, ...changes });
+  };
+
+  return {
+    upsert: (message) => {
+      const existing = rows.get(message.message_url);
+      rows.set(message.message_url, {
+        added_at: currentTimestamp(),
+        watch_rule_id: null,
+        seed_reactions: '[]',
+        ...existing,
+        ...message,
+        status: 'active',
+        last_error: null,
+        failure_count: 0,
+      });
+    },
+    get: (messageUrl) => {
+      const row = rows.get(messageUrl);
+      return row && { ...row };
+    },
+    getByMessageId: (messageId) => list((row) => row.message_id === messageId),
+    getAll: () => list(() => true),
+    getGuild: (guildId) => list((row) => row.guild_id === guildId),
+    getByWatchRule: (watchRuleId) => list((row) => row.watch_rule_id === watchRuleId)
+      .sort((a, b) => a.added_at.localeCompare(b.added_at) || a.message_id.localeCompare(b.message_id)),
+    getExpired: (now) => list((row) => row.status !== 'expired' && row.expires_at !== null && row.expires_at <= now),
+    countByStatus: () => {
+      const counts: Partial<Record<TrackedMessageStatus, number>> = {};
+      for (const row of rows.values()) counts[row.status] = (counts[row.status] ?? 0) + 1;
+      return counts;
+    },
+    updateOptions: (messageUrl, options) => update(messageUrl, options),
+    updateSchedule: (messageUrl, schedule) => update(messageUrl, schedule),
+    setSeedReactions: (messageUrl, seedReactions) => update(messageUrl, { seed_reactions: JSON.stringify(seedReactions) }),
+    setWatchRule: (messageUrl, watchRuleId) => update(messageUrl, { watch_rule_id: watchRuleId }),
+    clearWatchRule: (watchRuleId) => {
+      for (const row of rows.values()) {
+        if (row.watch_rule_id === watchRuleId) update(row.message_url, { watch_rule_id: null });
+      }
+    },
+    setStatus: (messageUrl, status) => update(messageUrl, { status, failure_count: 0, last_error: null }),
+    setFailure: (messageUrl, failureCount, lastError) => update(messageUrl, { failure_count: failureCount, last_error: lastError }),
+    setErrored: (messageUrl, failureCount, lastError) => update(messageUrl, { status: 'errored', failure_count: failureCount, last_error: lastError }),
+    setSuspended: (messageUrl, reason) => update(messageUrl, { status: 'suspended', failure_count: 0, last_error: reason }),
+    delete: (messageUrl) => { rows.delete(messageUrl); },
+    deleteGuild: (guildId) => {
+      for (const row of [...rows.values()]) {
+        if (row.guild_id === guildId) rows.delete(row.message_url);
+      }
+    },
+  };
+}